@@ -0,0 +1,92 @@
+/**
+ * Artifact Loading - Test Examples
+ *
+ * Shows how review artifacts are typed from their contents rather than
+ * their file names, and how to force a type when detection is ambiguous.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { detectFileKind, loadArtifact } from './artifact-loader';
+import { scriptedProvider } from './judge-provider';
+import { createReview } from './llm-review';
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+describe('Artifact detection', () => {
+  let dir: string;
+
+  const write = (name: string, contents: string | Buffer): string => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, contents);
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'review-artifacts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sniffs file types from contents, not extensions', () => {
+    expect(detectFileKind(write('screenshot.txt', PNG_HEADER))).toBe('image');
+    expect(detectFileKind(write('report', '%PDF-1.7\n'))).toBe('pdf');
+    expect(detectFileKind(write('logo.txt', '<?xml version="1.0"?>\n<svg viewBox="0 0 1 1"></svg>'))).toBe('svg');
+    expect(detectFileKind(write('page.txt', '<!DOCTYPE html><html></html>'))).toBe('html');
+    expect(detectFileKind(write('README.md', '# Title'))).toBe('markdown');
+    expect(detectFileKind(write('notes', 'plain words'))).toBe('text');
+    expect(detectFileKind(write('blob.dat', Buffer.from([1, 0, 2])))).toBe('binary');
+  });
+
+  it('maps files to judge content blocks', () => {
+    expect(loadArtifact(write('shot.bin', PNG_HEADER))).toEqual([
+      { type: 'image', mediaType: 'image/png', data: PNG_HEADER.toString('base64') },
+    ]);
+    expect(loadArtifact(write('spec', '%PDF-1.4'))[0]).toMatchObject({
+      type: 'document',
+      mediaType: 'application/pdf',
+    });
+    expect(loadArtifact(write('icon.svg', '<svg></svg>'))[0]).toEqual({
+      type: 'text',
+      text: 'SVG markup (icon.svg):\n\n<svg></svg>',
+    });
+    expect(() => loadArtifact(write('blob.dat', Buffer.from([1, 0, 2])))).toThrow('binary');
+  });
+
+  it('treats a string as text when forced, even if it names a file', () => {
+    const file = write('copy.md', '# Hello');
+
+    expect(loadArtifact(file, 'text')).toEqual([{ type: 'text', text: file }]);
+    expect(loadArtifact('Not a file on disk')).toEqual([{ type: 'text', text: 'Not a file on disk' }]);
+  });
+
+  it('rejects a path to a missing file instead of judging it as text', () => {
+    const missing = path.join(dir, 'docs', 'report.pdf');
+
+    expect(() => loadArtifact(missing)).toThrow(`Artifact file not found: ${missing}`);
+    expect(() => loadArtifact('shot.png')).toThrow('Artifact file not found: shot.png');
+    expect(loadArtifact('shot.png', 'text')).toEqual([{ type: 'text', text: 'shot.png' }]);
+    expect(loadArtifact('See docs/report.pdf')).toEqual([{ type: 'text', text: 'See docs/report.pdf' }]);
+  });
+
+  it('sends PDFs to the judge as documents', async () => {
+    const provider = scriptedProvider(['{"pass": true}']);
+
+    const result = await createReview({
+      criteria: 'Invoice lists a total',
+      artifact: write('invoice', '%PDF-1.4\n'),
+      provider,
+    });
+
+    expect(result.outcome).toBe('pass');
+    expect(provider.calls[0].content.map(block => block.type)).toEqual(['text', 'document']);
+  });
+});
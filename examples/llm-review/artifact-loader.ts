@@ -0,0 +1,196 @@
+/**
+ * Review Artifact Loading
+ *
+ * Turns a review artifact (literal text or a file path) into judge content.
+ * File types are sniffed from magic bytes rather than trusted from the
+ * extension, so a screenshot saved as .txt or a PDF without an extension
+ * is still sent to the judge correctly.
+ *
+ * Supported files:
+ *   - Images (PNG, JPEG, GIF, WebP): sent as image blocks
+ *   - PDF: sent as a document block
+ *   - SVG: sent as markup (the judge reads the vector source)
+ *   - HTML, Markdown and other text: sent as labelled text
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JudgeContentBlock, JudgeImageMediaType } from './judge-provider.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How to interpret an artifact:
+ * - 'auto': file path if one exists (type sniffed from contents), else text;
+ *   a missing file with a known extension (e.g. shot.png) is an error
+ * - 'text': always literal text, even if it happens to name a file
+ * - others: force that file type for the given path
+ */
+export type ArtifactType = 'auto' | 'text' | 'image' | 'pdf' | 'svg' | 'html' | 'markdown';
+
+/** Detected type of a file on disk */
+export type FileKind = 'image' | 'pdf' | 'svg' | 'html' | 'markdown' | 'text' | 'binary';
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/** Bytes inspected when sniffing a file */
+const SNIFF_BYTES = 4096;
+
+/** Fallback when an image is forced via artifactType but its bytes aren't recognised */
+const IMAGE_EXTENSIONS: Record<string, JudgeImageMediaType> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+/** Extensions that mark a single-word artifact as a path, even when the file is missing */
+const FILE_EXTENSIONS = new Set([
+  ...Object.keys(IMAGE_EXTENSIONS),
+  '.pdf',
+  '.svg',
+  '.html',
+  '.htm',
+  '.md',
+  '.markdown',
+  '.mdx',
+  '.txt',
+]);
+
+/**
+ * Whether a string should be treated as a path rather than literal text.
+ * Multi-line or very long strings are always text.
+ */
+export function isFilePath(artifact: string): boolean {
+  if (artifact.length > 1024 || /[\r\n\0]/.test(artifact)) {
+    return false;
+  }
+  try {
+    return fs.statSync(artifact).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a string reads as a file path: one word ending in a known file
+ * extension, e.g. 'docs/report.pdf'. It need not exist.
+ */
+export function looksLikeFilePath(artifact: string): boolean {
+  return artifact.length <= 1024 && !/\s/.test(artifact) && FILE_EXTENSIONS.has(path.extname(artifact).toLowerCase());
+}
+
+/**
+ * Detect an image media type from magic bytes
+ */
+export function sniffImageType(header: Buffer): JudgeImageMediaType | undefined {
+  if (header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (header.subarray(0, 4).toString('latin1') === 'GIF8') {
+    return 'image/gif';
+  }
+  if (
+    header.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    header.subarray(8, 12).toString('latin1') === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+/**
+ * Detect what kind of file is at a path from its contents.
+ * The extension is only used to tell Markdown from other plain text.
+ */
+export function detectFileKind(filePath: string): FileKind {
+  const fd = fs.openSync(filePath, 'r');
+  const header = Buffer.alloc(SNIFF_BYTES);
+  const length = fs.readSync(fd, header, 0, SNIFF_BYTES, 0);
+  fs.closeSync(fd);
+  const bytes = header.subarray(0, length);
+
+  if (sniffImageType(bytes)) {
+    return 'image';
+  }
+  if (bytes.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'pdf';
+  }
+  if (bytes.includes(0)) {
+    return 'binary';
+  }
+
+  const text = bytes.toString('utf-8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!doctype svg[^>]*>\s*)?<svg[\s>]/.test(text)) {
+    return 'svg';
+  }
+  if (/^(<!--[\s\S]*?-->\s*)*(<!doctype html|<html[\s>]|<head[\s>]|<body[\s>])/.test(text)) {
+    return 'html';
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  return ext === '.md' || ext === '.markdown' || ext === '.mdx' ? 'markdown' : 'text';
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Convert an artifact (literal text or a file path) into judge content blocks.
+ * Throws for binary files the judge can't read, and for paths to missing
+ * files unless the type is 'text'.
+ */
+export function loadArtifact(artifact: string, type: ArtifactType = 'auto'): JudgeContentBlock[] {
+  if (type === 'text' || (type === 'auto' && !isFilePath(artifact) && !looksLikeFilePath(artifact))) {
+    return [{ type: 'text', text: artifact }];
+  }
+  return loadArtifactFile(artifact, type);
+}
+
+/**
+ * Convert a file into judge content blocks, sniffing its type unless forced.
+ * Throws when the file is missing or is binary of unknown type.
+ */
+export function loadArtifactFile(
+  artifact: string,
+  type: Exclude<ArtifactType, 'text'> = 'auto'
+): JudgeContentBlock[] {
+  if (!fs.existsSync(artifact)) {
+    throw new Error(`Artifact file not found: ${artifact}`);
+  }
+
+  const kind = type === 'auto' ? detectFileKind(artifact) : type;
+  const buffer = fs.readFileSync(artifact);
+  const name = path.basename(artifact);
+
+  switch (kind) {
+    case 'image': {
+      const mediaType = sniffImageType(buffer) ?? IMAGE_EXTENSIONS[path.extname(artifact).toLowerCase()];
+      if (!mediaType) {
+        throw new Error(`Unsupported image format: ${artifact} (expected PNG, JPEG, GIF or WebP)`);
+      }
+      return [{ type: 'image', mediaType, data: buffer.toString('base64') }];
+    }
+    case 'pdf':
+      return [{ type: 'document', mediaType: 'application/pdf', data: buffer.toString('base64') }];
+    case 'svg':
+      return [{ type: 'text', text: `SVG markup (${name}):\n\n${buffer.toString('utf-8')}` }];
+    case 'html':
+      return [{ type: 'text', text: `HTML source (${name}):\n\n${buffer.toString('utf-8')}` }];
+    case 'markdown':
+      return [{ type: 'text', text: `Markdown (${name}):\n\n${buffer.toString('utf-8')}` }];
+    case 'text':
+      return [{ type: 'text', text: `File ${name}:\n\n${buffer.toString('utf-8')}` }];
+    case 'binary':
+      throw new Error(`Cannot review binary file of unknown type: ${artifact}`);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Judge Calibration - Test Examples
+ *
+ * Shows how a labelled golden set is laid out and how the metrics and
+ * the CI floor come out of it. Uses a scripted judge, so no API key is
+ * needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { scriptedProvider } from './judge-provider';
+import type { JudgeRequest } from './judge-provider';
+import {
+  checkCalibrationFloor,
+  loadCalibrationCorpus,
+  runCalibration,
+  runJudgeCalibration,
+  scoreCalibration,
+} from './judge-calibration';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'judge-calibration-'));
+  fs.writeFileSync(path.join(dir, 'criteria.md'), 'Error messages say what went wrong and how to fix it\n');
+  fs.mkdirSync(path.join(dir, 'good'));
+  fs.mkdirSync(path.join(dir, 'bad'));
+  fs.writeFileSync(path.join(dir, 'good', 'quota.txt'), 'GOOD: Upload failed: the file is over 10 MB. Compress it and retry.');
+  fs.writeFileSync(path.join(dir, 'good', 'login.txt'), 'GOOD: Wrong password. Reset it from the sign-in page.');
+  fs.writeFileSync(path.join(dir, 'bad', 'generic.txt'), 'BAD: Something went wrong.');
+  fs.writeFileSync(path.join(dir, 'bad', 'code.txt'), 'BAD-BUT-PLAUSIBLE: Error 0x80070005.');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const requestText = (request: JudgeRequest) =>
+  request.content.map(block => (block.type === 'text' ? block.text : '')).join('\n');
+
+/** A lenient judge that passes anything not plainly marked BAD */
+const lenientJudge = () =>
+  scriptedProvider(request => (/\bBAD:/.test(requestText(request)) ? '{"pass": false, "feedback": "Vague"}' : '{"pass": true}'));
+
+// =============================================================================
+// Corpus
+// =============================================================================
+
+describe('Calibration corpus', () => {
+  it('labels files under good/ and bad/', () => {
+    const corpus = loadCalibrationCorpus(dir);
+
+    expect(corpus.criteria).toBe('Error messages say what went wrong and how to fix it');
+    expect(corpus.judge).toBe('review');
+    expect(corpus.cases.map(c => [path.basename(c.artifact), c.expected])).toEqual([
+      ['login.txt', 'pass'],
+      ['quota.txt', 'pass'],
+      ['code.txt', 'fail'],
+      ['generic.txt', 'fail'],
+    ]);
+  });
+
+  it('reads explicit cases and a floor from calibration.json', () => {
+    fs.writeFileSync(path.join(dir, 'calibration.json'), JSON.stringify({
+      criteria: 'Be specific',
+      cases: [{ artifact: 'bad/code.txt', expected: 'fail' }],
+      floor: { accuracy: 0.9 },
+    }));
+
+    const corpus = loadCalibrationCorpus(dir);
+
+    expect(corpus.criteria).toBe('Be specific');
+    expect(corpus.cases).toEqual([{ artifact: path.join(dir, 'bad', 'code.txt'), expected: 'fail' }]);
+    expect(corpus.floor).toEqual({ accuracy: 0.9 });
+  });
+});
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+describe('Calibration metrics', () => {
+  it('reports precision, recall and false rates per intelligence level', async () => {
+    const provider = lenientJudge();
+
+    const report = await runCalibration(loadCalibrationCorpus(dir), {
+      targets: [{ intelligence: 'fast', provider }, { intelligence: 'smart', provider }],
+    });
+
+    expect(report.targets.map(t => [t.intelligence, t.model])).toEqual([
+      ['fast', 'claude-haiku-4-20250514'],
+      ['smart', 'claude-sonnet-4-20250514'],
+    ]);
+    expect(report.targets[0]).toMatchObject({
+      total: 4,
+      truePass: 2,
+      trueFail: 1,
+      falsePass: 1,
+      falseFail: 0,
+      errors: 0,
+      accuracy: 0.75,
+      precision: 2 / 3,
+      recall: 1,
+      falsePassRate: 0.5,
+      falseFailRate: 0,
+    });
+    expect(report.targets[0].verdicts.find(v => !v.correct)?.artifact).toContain('code.txt');
+  });
+
+  it('judges visual corpora with the injected visual judge', async () => {
+    fs.writeFileSync(path.join(dir, 'calibration.json'), JSON.stringify({ judge: 'visual' }));
+    const corpus = loadCalibrationCorpus(dir);
+    const judged: string[] = [];
+
+    await expect(runCalibration(corpus)).rejects.toThrow("judge 'visual' needs a visualJudge");
+    const report = await runCalibration(corpus, {
+      targets: [{ intelligence: 'fast' }],
+      visualJudge: async (screenshotPath, criteria, options) => {
+        judged.push(`${options.intelligence} ${path.basename(screenshotPath)}`);
+        return { outcome: screenshotPath.includes(`${path.sep}good${path.sep}`) ? 'pass' : 'fail', model: 'vision-model' };
+      },
+    });
+
+    expect(judged.sort()).toEqual(['fast code.txt', 'fast generic.txt', 'fast login.txt', 'fast quota.txt']);
+    expect(report.targets[0]).toMatchObject({ model: 'vision-model', accuracy: 1 });
+  });
+
+  it('counts judge errors as wrong without skewing the rates', () => {
+    const metrics = scoreCalibration('fast', [
+      { artifact: 'a', expected: 'pass', outcome: 'pass', correct: true },
+      { artifact: 'b', expected: 'fail', outcome: 'error', correct: false },
+    ]);
+
+    expect(metrics).toMatchObject({ errors: 1, accuracy: 0.5, precision: 1, recall: 1, falsePassRate: 0 });
+  });
+
+  it('lists every floor breach', () => {
+    const metrics = scoreCalibration('smart', [
+      { artifact: 'a', expected: 'pass', outcome: 'fail', correct: false },
+      { artifact: 'b', expected: 'fail', outcome: 'pass', correct: false },
+    ]);
+
+    expect(checkCalibrationFloor(metrics, { accuracy: 0.9, maxFalsePassRate: 0.1 })).toEqual([
+      'accuracy 0.000 is below 0.9',
+      'false-pass rate 1.000 is above 0.1',
+    ]);
+    expect(checkCalibrationFloor(metrics, {})).toEqual([]);
+  });
+});
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+describe('ralph-calibrate CLI', () => {
+  it('exits non-zero when a corpus cannot be loaded', async () => {
+    const lines: string[] = [];
+
+    const code = await runJudgeCalibration([path.join(dir, 'good')], line => lines.push(line));
+
+    expect(code).toBe(1);
+    expect(lines[0]).toContain('needs criteria.md');
+  });
+
+  it('rejects floors outside 0-1', async () => {
+    const lines: string[] = [];
+
+    const code = await runJudgeCalibration([dir, '--min-accuracy', '90'], line => lines.push(line));
+
+    expect(code).toBe(1);
+    expect(lines[0]).toBe('--min-accuracy needs a number between 0 and 1, got 90');
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * Judge Calibration
+ *
+ * Measures whether the judge prompts are too strict or too lenient by
+ * running them over a labelled golden set: artifacts known to meet a
+ * criterion and artifacts known not to. For each intelligence level (and
+ * the model it resolves to) it reports precision, recall, false-pass and
+ * false-fail rates, and a floor guard fails CI when a prompt or model
+ * change drops them below the agreed minimum.
+ *
+ * Corpus layout (one directory per criterion):
+ *
+ *   calibration/error-messages/
+ *     criteria.md          The criterion, as passed to the judge
+ *     good/…               Artifacts that should pass
+ *     bad/…                Artifacts that should fail
+ *     calibration.json     Optional: { criteria, judge, cases, floor }
+ *
+ * `judge` is 'review' (createReview, default) or 'visual' (screenshots,
+ * judged by the `visualJudge` option; ralph-calibrate passes
+ * performVisualAssertion). `cases` lists { artifact, expected }
+ * explicitly instead of good/ and bad/.
+ *
+ * Usage:
+ *   npm run ralph-calibrate -- calibration/* --min-accuracy 0.9 --max-false-pass 0.05
+ *
+ *   const report = await runCalibration(loadCalibrationCorpus('calibration/error-messages'));
+ *   checkCalibrationFloor(report.targets[0], { accuracy: 0.9 });  // [] when above the floor
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createReview } from './llm-review.js';
+import type { JudgeProvider } from './judge-provider.js';
+import type { JudgeOutcome } from './judge-output.js';
+import { getModelRegistry, type ModelTierName } from './model-registry.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CalibrationCase {
+  /** Path to the artifact (text files, images, PDFs, ... as createReview accepts) */
+  artifact: string;
+
+  /** Verdict a well-calibrated judge gives */
+  expected: 'pass' | 'fail';
+}
+
+export interface CalibrationFloor {
+  /** Minimum share of cases judged correctly (errors count as wrong) */
+  accuracy?: number;
+
+  /** Minimum share of passed artifacts that are known-good */
+  precision?: number;
+
+  /** Minimum share of known-good artifacts that pass */
+  recall?: number;
+
+  /** Maximum share of known-bad artifacts that pass */
+  maxFalsePassRate?: number;
+
+  /** Maximum share of known-good artifacts that fail */
+  maxFalseFailRate?: number;
+}
+
+export interface CalibrationCorpus {
+  /** Directory name, used in reports */
+  name: string;
+
+  criteria: string;
+
+  /** Which judge prompt to calibrate (default: 'review') */
+  judge: 'review' | 'visual';
+
+  cases: CalibrationCase[];
+
+  /** Floor declared in calibration.json */
+  floor?: CalibrationFloor;
+}
+
+/** One judge configuration to calibrate */
+export interface CalibrationTarget {
+  /** Model registry tier */
+  intelligence: ModelTierName;
+
+  /** Model backend (default: resolved like llm-review) */
+  provider?: JudgeProvider;
+}
+
+/** Settings each case is judged with */
+export interface CalibrationJudgeOptions extends CalibrationTarget {
+  /** Each tier is measured on its own: no escalation, no cached verdicts */
+  escalate: false;
+  cache: false;
+
+  /** Journal name of the case */
+  name: string;
+}
+
+/** Judges one screenshot case, e.g. performVisualAssertion */
+export type VisualCaseJudge = (
+  screenshotPath: string,
+  criteria: string,
+  options: CalibrationJudgeOptions
+) => Promise<{ outcome: JudgeOutcome; feedback?: string; model?: string; costUsd?: number }>;
+
+export interface CalibrationOptions {
+  /** Configurations to compare (default: fast and smart) */
+  targets?: CalibrationTarget[];
+
+  /** Judgments in flight at once (default: 4) */
+  concurrency?: number;
+
+  /** Judge for corpora with judge 'visual' (required for them) */
+  visualJudge?: VisualCaseJudge;
+}
+
+export interface CalibrationVerdict extends CalibrationCase {
+  outcome: JudgeOutcome;
+  feedback?: string;
+
+  /** Whether the verdict matched the label */
+  correct: boolean;
+}
+
+export interface CalibrationMetrics {
+  intelligence: ModelTierName;
+
+  /** Model that produced the verdicts (undefined if every judgment errored) */
+  model?: string;
+
+  total: number;
+
+  /** Known-good passed / known-bad failed / known-bad passed / known-good failed */
+  truePass: number;
+  trueFail: number;
+  falsePass: number;
+  falseFail: number;
+
+  /** Judgments that errored instead of returning a verdict */
+  errors: number;
+
+  /** Correct verdicts / total (1 for an empty corpus) */
+  accuracy: number;
+
+  /** truePass / all passes (1 when nothing passed) */
+  precision: number;
+
+  /** truePass / judged known-good cases (1 when there are none) */
+  recall: number;
+
+  /** falsePass / judged known-bad cases */
+  falsePassRate: number;
+
+  /** falseFail / judged known-good cases */
+  falseFailRate: number;
+
+  /** Total estimated judge spend in USD */
+  costUsd: number;
+
+  verdicts: CalibrationVerdict[];
+}
+
+export interface CalibrationReport {
+  corpus: string;
+  criteria: string;
+  judge: 'review' | 'visual';
+
+  /** One entry per target, in the order given */
+  targets: CalibrationMetrics[];
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+function listFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+    .map(entry => path.join(dir, entry.name))
+    .sort();
+}
+
+/**
+ * Load a corpus directory (see the module comment for the layout)
+ */
+export function loadCalibrationCorpus(dir: string): CalibrationCorpus {
+  const manifestPath = path.join(dir, 'calibration.json');
+  const manifest = fs.existsSync(manifestPath)
+    ? (JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as Partial<CalibrationCorpus>)
+    : {};
+
+  const criteriaPath = path.join(dir, 'criteria.md');
+  const criteria = manifest.criteria ?? (fs.existsSync(criteriaPath) ? fs.readFileSync(criteriaPath, 'utf-8').trim() : '');
+  if (!criteria) {
+    throw new Error(`Calibration corpus ${dir} needs criteria.md or "criteria" in calibration.json`);
+  }
+
+  const cases: CalibrationCase[] = manifest.cases
+    ? manifest.cases.map(c => ({ artifact: path.resolve(dir, c.artifact), expected: c.expected }))
+    : [
+        ...listFiles(path.join(dir, 'good')).map(artifact => ({ artifact, expected: 'pass' as const })),
+        ...listFiles(path.join(dir, 'bad')).map(artifact => ({ artifact, expected: 'fail' as const })),
+      ];
+  if (cases.length === 0) {
+    throw new Error(`Calibration corpus ${dir} has no cases; add files under good/ and bad/`);
+  }
+  for (const c of cases) {
+    if (c.expected !== 'pass' && c.expected !== 'fail') {
+      throw new Error(`Calibration case ${c.artifact} must expect 'pass' or 'fail'`);
+    }
+  }
+
+  const judge = manifest.judge ?? 'review';
+  if (judge !== 'review' && judge !== 'visual') {
+    throw new Error(`Calibration corpus ${dir}: judge must be 'review' or 'visual'`);
+  }
+
+  return { name: path.basename(path.resolve(dir)), criteria, judge, cases, floor: manifest.floor };
+}
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+const share = (part: number, whole: number, empty: number): number => (whole === 0 ? empty : part / whole);
+
+/**
+ * Score verdicts against their labels
+ */
+export function scoreCalibration(
+  intelligence: ModelTierName,
+  verdicts: CalibrationVerdict[],
+  model?: string,
+  costUsd: number = 0
+): CalibrationMetrics {
+  const judged = verdicts.filter(v => v.outcome !== 'error');
+  const count = (expected: 'pass' | 'fail', outcome: 'pass' | 'fail') =>
+    judged.filter(v => v.expected === expected && v.outcome === outcome).length;
+
+  const truePass = count('pass', 'pass');
+  const trueFail = count('fail', 'fail');
+  const falsePass = count('fail', 'pass');
+  const falseFail = count('pass', 'fail');
+
+  return {
+    intelligence,
+    model,
+    total: verdicts.length,
+    truePass,
+    trueFail,
+    falsePass,
+    falseFail,
+    errors: verdicts.length - judged.length,
+    accuracy: share(truePass + trueFail, verdicts.length, 1),
+    precision: share(truePass, truePass + falsePass, 1),
+    recall: share(truePass, truePass + falseFail, 1),
+    falsePassRate: share(falsePass, falsePass + trueFail, 0),
+    falseFailRate: share(falseFail, truePass + falseFail, 0),
+    costUsd,
+    verdicts,
+  };
+}
+
+/**
+ * Compare metrics with a floor. Returns one message per breach; empty
+ * when the judge is calibrated well enough.
+ */
+export function checkCalibrationFloor(metrics: CalibrationMetrics, floor: CalibrationFloor): string[] {
+  const breaches: string[] = [];
+  const below = (name: string, value: number, min?: number) => {
+    if (min !== undefined && value < min) breaches.push(`${name} ${value.toFixed(3)} is below ${min}`);
+  };
+  const above = (name: string, value: number, max?: number) => {
+    if (max !== undefined && value > max) breaches.push(`${name} ${value.toFixed(3)} is above ${max}`);
+  };
+
+  below('accuracy', metrics.accuracy, floor.accuracy);
+  below('precision', metrics.precision, floor.precision);
+  below('recall', metrics.recall, floor.recall);
+  above('false-pass rate', metrics.falsePassRate, floor.maxFalsePassRate);
+  above('false-fail rate', metrics.falseFailRate, floor.maxFalseFailRate);
+  return breaches;
+}
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+/**
+ * Judge one case, turning thrown errors into an 'error' verdict
+ */
+async function judgeCase(
+  corpus: CalibrationCorpus,
+  c: CalibrationCase,
+  target: CalibrationTarget,
+  visualJudge: VisualCaseJudge | undefined
+): Promise<{ verdict: CalibrationVerdict; model?: string; costUsd: number }> {
+  try {
+    const judge: CalibrationJudgeOptions = {
+      ...target,
+      escalate: false,
+      cache: false,
+      name: `calibration:${corpus.name}/${path.basename(c.artifact)}`,
+    };
+    const result = corpus.judge === 'visual' && visualJudge
+      ? await visualJudge(c.artifact, corpus.criteria, judge)
+      : await createReview({ ...judge, criteria: corpus.criteria, artifact: c.artifact });
+    return {
+      verdict: { ...c, outcome: result.outcome, feedback: result.feedback, correct: result.outcome === c.expected },
+      model: result.model,
+      costUsd: result.costUsd ?? 0,
+    };
+  } catch (error) {
+    return {
+      verdict: {
+        ...c,
+        outcome: 'error',
+        feedback: `Judge failed: ${error instanceof Error ? error.message : String(error)}`,
+        correct: false,
+      },
+      costUsd: 0,
+    };
+  }
+}
+
+/**
+ * Run every target over the corpus. Cases run in parallel up to
+ * `concurrency`; targets run one after another.
+ */
+export async function runCalibration(
+  corpus: CalibrationCorpus,
+  options: CalibrationOptions = {}
+): Promise<CalibrationReport> {
+  const { targets = [{ intelligence: 'fast' }, { intelligence: 'smart' }], concurrency = 4, visualJudge } = options;
+  if (corpus.judge === 'visual' && !visualJudge) {
+    throw new Error(`Calibration corpus ${corpus.name}: judge 'visual' needs a visualJudge`);
+  }
+  const metrics: CalibrationMetrics[] = [];
+
+  for (const target of targets) {
+    const judged: Awaited<ReturnType<typeof judgeCase>>[] = new Array(corpus.cases.length);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < corpus.cases.length) {
+        const index = next++;
+        judged[index] = await judgeCase(corpus, corpus.cases[index], target, visualJudge);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, corpus.cases.length)) }, worker));
+
+    metrics.push(scoreCalibration(
+      target.intelligence,
+      judged.map(j => j.verdict),
+      judged.find(j => j.model)?.model,
+      judged.reduce((sum, j) => sum + j.costUsd, 0)
+    ));
+  }
+
+  return { corpus: corpus.name, criteria: corpus.criteria, judge: corpus.judge, targets: metrics };
+}
+
+/**
+ * One-line summary of a target's metrics
+ */
+export function formatCalibration(metrics: CalibrationMetrics): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  return (
+    `${metrics.intelligence.padEnd(5)} ${metrics.model ?? '(no verdicts)'}: ` +
+    `accuracy ${pct(metrics.accuracy)}, precision ${pct(metrics.precision)}, recall ${pct(metrics.recall)}, ` +
+    `false-pass ${pct(metrics.falsePassRate)}, false-fail ${pct(metrics.falseFailRate)} ` +
+    `(${metrics.total} cases, ${metrics.errors} errors, $${metrics.costUsd.toFixed(4)})`
+  );
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+const USAGE = `Usage: ralph-calibrate <corpus-dir>... [options]
+
+Options:
+  --levels <list>          Model registry tiers to compare (default: fast,smart)
+  --min-accuracy <n>       Fail below this accuracy (0-1)
+  --min-precision <n>      Fail below this precision (0-1)
+  --min-recall <n>         Fail below this recall (0-1)
+  --max-false-pass <n>     Fail above this false-pass rate (0-1)
+  --max-false-fail <n>     Fail above this false-fail rate (0-1)
+  --concurrency <n>        Judgments in flight at once (default: 4)
+  --out <path>             Also write the full report as JSON
+
+Floors given here override the "floor" in each corpus's calibration.json.`;
+
+const FLOOR_FLAGS: Record<string, keyof CalibrationFloor> = {
+  '--min-accuracy': 'accuracy',
+  '--min-precision': 'precision',
+  '--min-recall': 'recall',
+  '--max-false-pass': 'maxFalsePassRate',
+  '--max-false-fail': 'maxFalseFailRate',
+};
+
+/**
+ * Run the ralph-calibrate command line. Returns the process exit code:
+ * 1 when any corpus fails to load or any target is below its floor.
+ * Visual corpora are judged with `judges.visualJudge`.
+ */
+export async function runJudgeCalibration(
+  argv: string[],
+  log: (line: string) => void = console.log,
+  judges: Pick<CalibrationOptions, 'visualJudge'> = {}
+): Promise<number> {
+  const dirs: string[] = [];
+  const floor: CalibrationFloor = {};
+  const options: CalibrationOptions = { ...judges };
+  let outPath: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    if (arg in FLOOR_FLAGS && value !== undefined) {
+      const n = Number(argv[++i]);
+      if (!Number.isFinite(n) || n < 0 || n > 1) {
+        log(`${arg} needs a number between 0 and 1, got ${value}`);
+        return 1;
+      }
+      floor[FLOOR_FLAGS[arg]] = n;
+    } else if (arg === '--levels' && value !== undefined) {
+      const levels = argv[++i].split(',').map(level => level.trim());
+      const tiers = Object.keys(getModelRegistry().tiers);
+      const unknown = levels.filter(level => !tiers.includes(level));
+      if (unknown.length > 0) {
+        log(`Unknown model tier: ${unknown.join(', ')} (known: ${tiers.join(', ')})`);
+        return 1;
+      }
+      options.targets = levels.map(intelligence => ({ intelligence }));
+    } else if (arg === '--concurrency' && value !== undefined) {
+      options.concurrency = Number(argv[++i]);
+    } else if (arg === '--out' && value !== undefined) {
+      outPath = argv[++i];
+    } else if (arg === 'help' || arg === '--help' || arg === '-h') {
+      log(USAGE);
+      return 0;
+    } else if (arg.startsWith('--')) {
+      log(`Unknown argument: ${arg}\n\n${USAGE}`);
+      return 1;
+    } else {
+      dirs.push(arg);
+    }
+  }
+
+  if (dirs.length === 0) {
+    log(USAGE);
+    return 1;
+  }
+
+  const reports: CalibrationReport[] = [];
+  let failed = false;
+  for (const dir of dirs) {
+    let corpus: CalibrationCorpus;
+    try {
+      corpus = loadCalibrationCorpus(dir);
+    } catch (error) {
+      log(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      failed = true;
+      continue;
+    }
+
+    let report: CalibrationReport;
+    try {
+      report = await runCalibration(corpus, options);
+    } catch (error) {
+      log(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      failed = true;
+      continue;
+    }
+    reports.push(report);
+    const corpusFloor = { ...corpus.floor, ...floor };
+    log(`${corpus.name} (${corpus.cases.length} cases, ${corpus.judge})`);
+    for (const metrics of report.targets) {
+      const breaches = checkCalibrationFloor(metrics, corpusFloor);
+      log(`  ${breaches.length > 0 ? '✗' : '✓'} ${formatCalibration(metrics)}`);
+      for (const breach of breaches) {
+        log(`      ${breach}`);
+      }
+      failed ||= breaches.length > 0;
+    }
+  }
+
+  if (outPath) {
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, JSON.stringify(reports, null, 2) + '\n');
+    log(`Wrote ${outPath}`);
+  }
+  return failed ? 1 : 0;
+}
@@ -0,0 +1,121 @@
+/**
+ * Judge Cassettes - Test Examples
+ *
+ * Shows how recorded judgments let llm-review suites run offline in CI.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { cassetteKey, cassetteOptionsFromEnv, cassetteProvider } from './judge-cassette';
+import { resolveJudgeProvider, scriptedProvider } from './judge-provider';
+import { createReview } from './llm-review';
+
+// =============================================================================
+// Record / Replay
+// =============================================================================
+
+describe('Judge cassettes', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'judge-cassettes-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded review without calling the judge', async () => {
+    const live = scriptedProvider(['{"pass": false, "feedback": "Too long"}']);
+    const config = { criteria: 'Under ten words', artifact: 'This sentence is definitely longer than ten words in total.' };
+
+    const recorded = await createReview({
+      ...config,
+      provider: cassetteProvider(live, { mode: 'record', dir }),
+    });
+
+    const offline = scriptedProvider([]);
+    const replayed = await createReview({
+      ...config,
+      provider: cassetteProvider(offline, { mode: 'replay', dir }),
+    });
+
+    expect(replayed).toEqual(recorded);
+    expect(offline.calls).toHaveLength(0);
+    expect(fs.readdirSync(dir)).toHaveLength(1);
+  });
+
+  it('fails loudly on a replay miss', async () => {
+    await expect(
+      createReview({
+        criteria: 'Anything',
+        artifact: 'never recorded',
+        provider: cassetteProvider(scriptedProvider([]), { mode: 'replay', dir }),
+      })
+    ).rejects.toThrow('cassette miss');
+  });
+
+  it('records only missing entries in auto mode', async () => {
+    const live = scriptedProvider(() => '{"pass": true}');
+    const provider = cassetteProvider(live, { mode: 'auto', dir });
+
+    await createReview({ criteria: 'Friendly', artifact: 'Hi!', provider });
+    await createReview({ criteria: 'Friendly', artifact: 'Hi!', provider });
+
+    expect(live.calls).toHaveLength(1);
+  });
+});
+
+// =============================================================================
+// Keys and Environment
+// =============================================================================
+
+describe('Cassette keys', () => {
+  const base = {
+    model: 'claude-haiku-4-20250514',
+    system: 'Judge',
+    content: [{ type: 'text' as const, text: 'Criteria: Friendly' }],
+    maxTokens: 256,
+  };
+
+  it('ignores maxTokens but tracks prompt content', () => {
+    expect(cassetteKey({ ...base, maxTokens: 1024 })).toBe(cassetteKey(base));
+    expect(cassetteKey({ ...base, model: 'claude-sonnet-4-20250514' })).not.toBe(cassetteKey(base));
+  });
+
+  it('tracks the output schema', () => {
+    const schema = (name: string) => ({
+      name,
+      description: 'Judgment',
+      inputSchema: { type: 'object', properties: { pass: { type: 'boolean' } } },
+    });
+    const verdict = cassetteKey({ ...base, schema: schema('submit_verdict') });
+
+    expect(verdict).not.toBe(cassetteKey(base));
+    expect(verdict).not.toBe(cassetteKey({ ...base, schema: schema('submit_scores') }));
+    expect(verdict).not.toBe(cassetteKey({
+      ...base,
+      schema: { ...schema('submit_verdict'), inputSchema: { type: 'object', properties: { ok: { type: 'boolean' } } } },
+    }));
+  });
+
+  it('does not wrap a cassette provider in another cassette', () => {
+    const explicit = cassetteProvider(scriptedProvider([]), { mode: 'replay' });
+    const previous = process.env.RALPH_JUDGE_CASSETTE;
+    process.env.RALPH_JUDGE_CASSETTE = 'auto';
+    try {
+      expect(resolveJudgeProvider(explicit, () => scriptedProvider([]))).toBe(explicit);
+    } finally {
+      if (previous === undefined) delete process.env.RALPH_JUDGE_CASSETTE;
+      else process.env.RALPH_JUDGE_CASSETTE = previous;
+    }
+  });
+
+  it('reads mode from the environment', () => {
+    expect(cassetteOptionsFromEnv({})).toBeUndefined();
+    expect(cassetteOptionsFromEnv({ RALPH_JUDGE_CASSETTE: 'replay' })?.mode).toBe('replay');
+    expect(() => cassetteOptionsFromEnv({ RALPH_JUDGE_CASSETTE: 'rewind' })).toThrow('rewind');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Judge Cassettes (Record/Replay)
+ *
+ * Wraps a JudgeProvider so each judgment is stored on disk, keyed on a hash
+ * of the model, system prompt, output schema, criteria and artifact bytes. Replaying the
+ * cassettes makes llm-review and visual-testing suites free, stable and
+ * runnable offline.
+ *
+ * Modes:
+ *   record  Always call the judge and overwrite the stored response
+ *   replay  Only read stored responses; a miss throws (use in CI)
+ *   auto    Read when present, otherwise call the judge and store
+ *
+ * Environment:
+ *   RALPH_JUDGE_CASSETTE      record | replay | auto (unset = off)
+ *   RALPH_JUDGE_CASSETTE_DIR  Storage directory (default: ./judge-cassettes)
+ *
+ * Commit the cassette directory so CI can run with RALPH_JUDGE_CASSETTE=replay.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JudgeProvider, JudgeRequest, JudgeResponse } from './judge-provider.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface CassetteOptions {
+  /** How to treat stored responses */
+  mode: CassetteMode;
+
+  /** Directory holding one JSON file per request (default: ./judge-cassettes) */
+  dir?: string;
+}
+
+export interface CassetteEntry {
+  /** Request hash, also the file name */
+  key: string;
+
+  /** When the response was recorded (ISO 8601) */
+  recordedAt: string;
+
+  /** Provider that produced the response */
+  provider: string;
+
+  /** Human-readable request summary (images and documents reduced to their hashes) */
+  request: {
+    model: string;
+    temperature?: number;
+    system: string;
+    content: Array<{ type: 'text'; text: string } | { type: 'image' | 'document'; sha256: string }>;
+
+    /** Structured output schema name and a hash of its JSON Schema */
+    schema?: { name: string; sha256: string };
+  };
+
+  /** Stored judge response */
+  response: JudgeResponse;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+const DEFAULT_CASSETTE_DIR = './judge-cassettes';
+
+/** Providers created by cassetteProvider, so they are never wrapped twice */
+const cassettes = new WeakSet<JudgeProvider>();
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Summarise a request with images and documents replaced by content hashes
+ */
+function describeRequest(request: JudgeRequest): CassetteEntry['request'] {
+  return {
+    model: request.model,
+    temperature: request.temperature,
+    system: request.system,
+    content: request.content.map(block =>
+      block.type === 'text'
+        ? { type: 'text' as const, text: block.text }
+        : { type: block.type, sha256: sha256(block.data) }
+    ),
+    schema: request.schema && {
+      name: request.schema.name,
+      sha256: sha256(JSON.stringify(request.schema.inputSchema)),
+    },
+  };
+}
+
+/**
+ * Stable key for a request: model, temperature, system prompt, output schema, criteria
+ * and artifact bytes.
+ * maxTokens is deliberately excluded so tuning it doesn't invalidate cassettes.
+ */
+export function cassetteKey(request: JudgeRequest): string {
+  return sha256(JSON.stringify(describeRequest(request))).slice(0, 32);
+}
+
+/**
+ * Wrap a provider with record/replay storage
+ */
+export function cassetteProvider(inner: JudgeProvider, options: CassetteOptions): JudgeProvider {
+  const dir = options.dir || DEFAULT_CASSETTE_DIR;
+
+  const provider: JudgeProvider = {
+    name: `cassette:${inner.name}`,
+    async complete(request) {
+      const key = cassetteKey(request);
+      const file = path.join(dir, `${key}.json`);
+
+      if (options.mode !== 'record' && fs.existsSync(file)) {
+        const entry = JSON.parse(fs.readFileSync(file, 'utf-8')) as CassetteEntry;
+        return entry.response;
+      }
+
+      if (options.mode === 'replay') {
+        const summary = request.content
+          .filter(block => block.type === 'text')
+          .map(block => (block as { text: string }).text)
+          .join(' ')
+          .slice(0, 120);
+        throw new Error(
+          `Judge cassette miss in replay mode (key ${key}, model ${request.model}): "${summary}". ` +
+            `Re-run with RALPH_JUDGE_CASSETTE=record or auto to capture it.`
+        );
+      }
+
+      const response = await inner.complete(request);
+
+      const entry: CassetteEntry = {
+        key,
+        recordedAt: new Date().toISOString(),
+        provider: inner.name,
+        request: describeRequest(request),
+        response,
+      };
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(entry, null, 2) + '\n');
+
+      return response;
+    },
+  };
+  cassettes.add(provider);
+  return provider;
+}
+
+/**
+ * Whether a provider already records or replays through a cassette
+ */
+export function isCassetteProvider(provider: JudgeProvider): boolean {
+  return cassettes.has(provider);
+}
+
+/**
+ * Read cassette options from RALPH_JUDGE_CASSETTE* environment variables.
+ * Returns undefined when cassettes are off.
+ */
+export function cassetteOptionsFromEnv(
+  env: Record<string, string | undefined> = process.env
+): CassetteOptions | undefined {
+  const mode = env.RALPH_JUDGE_CASSETTE;
+  if (!mode || mode === 'off') {
+    return undefined;
+  }
+  if (mode !== 'record' && mode !== 'replay' && mode !== 'auto') {
+    throw new Error(`Unknown RALPH_JUDGE_CASSETTE mode: ${mode}`);
+  }
+  return { mode, dir: env.RALPH_JUDGE_CASSETTE_DIR };
+}
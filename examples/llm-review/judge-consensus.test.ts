@@ -0,0 +1,85 @@
+/**
+ * Consensus Voting - Test Examples
+ *
+ * Shows how sampling the judge several times smooths out flaky verdicts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runConsensus } from './judge-consensus';
+import { scriptedProvider } from './judge-provider';
+import { createReview } from './llm-review';
+
+const PASS = '{"pass": true}';
+const FAIL = '{"pass": false, "feedback": "Call to action is buried"}';
+
+// =============================================================================
+// createReview with samples
+// =============================================================================
+
+describe('Consensus reviews', () => {
+  it('returns a clean verdict when all samples agree', async () => {
+    const result = await createReview({
+      criteria: 'Obvious call to action',
+      artifact: '[Get Started Free]',
+      samples: 3,
+      provider: scriptedProvider([PASS, PASS, PASS]),
+    });
+
+    expect(result).toMatchObject({ pass: true, agreement: 1, unstable: false });
+    expect(result.votes).toEqual({ pass: 3, fail: 0 });
+  });
+
+  it('reports a split vote as unstable, with no passing verdict', async () => {
+    const result = await createReview({
+      criteria: 'Obvious call to action',
+      artifact: 'Learn more about our pricing somewhere below.',
+      samples: 3,
+      provider: scriptedProvider([PASS, FAIL, PASS]),
+    });
+
+    expect(result).toMatchObject({ pass: false, outcome: 'error', unstable: true });
+    expect(result.votes).toEqual({ pass: 2, fail: 1 });
+    expect(result.agreement).toBeCloseTo(2 / 3);
+    expect(result.feedback).toContain('Call to action is buried');
+  });
+
+  it('accepts a dissenting vote within quorum', async () => {
+    const result = await createReview({
+      criteria: 'Obvious call to action',
+      artifact: '[Start trial]',
+      samples: 5,
+      quorum: 4,
+      provider: scriptedProvider([FAIL, FAIL, PASS, FAIL, FAIL]),
+    });
+
+    expect(result).toMatchObject({ pass: false, unstable: false, agreement: 0.8 });
+    expect(result.feedback).toBe('Call to action is buried');
+  });
+});
+
+// =============================================================================
+// runConsensus
+// =============================================================================
+
+describe('runConsensus', () => {
+  it('treats ties as failures', async () => {
+    let call = 0;
+    const result = await runConsensus({ samples: 2 }, async () => ({ pass: call++ === 0 }));
+
+    expect(result.pass).toBe(false);
+    expect(result.unstable).toBe(true);
+  });
+
+  it('keeps a split majority that reaches quorum', async () => {
+    let call = 0;
+    const result = await runConsensus({ samples: 3, quorum: 2 }, async () => ({ pass: call++ !== 1, outcome: 'pass' }));
+
+    expect(result).toMatchObject({ pass: true, outcome: 'pass', unstable: false });
+  });
+
+  it('passes single samples through untouched', async () => {
+    const result = await runConsensus({}, async () => ({ pass: true }));
+
+    expect(result).toEqual({ pass: true });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Consensus Voting for LLM Judgments
+ *
+ * A single judgment is non-deterministic: the same artifact can pass one
+ * Ralph iteration and fail the next. Sampling the judge several times and
+ * taking the majority gives a steadier verdict, and a split vote is
+ * reported as `unstable` so the loop can treat it as noise rather than a
+ * real regression. An unstable split is no verdict: it never passes and
+ * its outcome is 'error'.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ConsensusOptions {
+  /** Number of independent judgments to run (default: 1) */
+  samples?: number;
+
+  /**
+   * Votes that must agree for a stable verdict (default: all samples).
+   * E.g. samples: 5, quorum: 4 tolerates a single dissenting vote.
+   */
+  quorum?: number;
+}
+
+export interface ConsensusInfo {
+  /** Share of samples agreeing with the returned verdict (0.5-1) */
+  agreement?: number;
+
+  /** True when the majority did not reach quorum (pass is then false, outcome 'error') */
+  unstable?: boolean;
+
+  /** Raw vote counts */
+  votes?: { pass: number; fail: number };
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Run a judgment `samples` times and return the majority result, or an
+ * 'error' result flagged unstable when the majority misses quorum.
+ * Ties resolve to fail. Samples with an 'error' outcome don't vote; if every
+ * sample errored, the first error is returned. With a single sample the
+ * judgment is returned as-is.
+ */
+export async function runConsensus<
+  T extends {
+    pass: boolean;
+    feedback?: string;
+    outcome?: string;
+    usage?: { inputTokens: number; outputTokens: number };
+    costUsd?: number;
+  }
+>(
+  options: ConsensusOptions,
+  judge: () => Promise<T>
+): Promise<T & ConsensusInfo> {
+  const samples = Math.max(1, Math.floor(options.samples ?? 1));
+  if (samples === 1) {
+    return judge();
+  }
+
+  const quorum = Math.min(samples, Math.max(1, options.quorum ?? samples));
+  const all = await Promise.all(Array.from({ length: samples }, () => judge()));
+
+  // Every sample is paid for, whichever side it voted on
+  const spend = all.some(r => r.usage)
+    ? {
+        usage: {
+          inputTokens: all.reduce((sum, r) => sum + (r.usage?.inputTokens ?? 0), 0),
+          outputTokens: all.reduce((sum, r) => sum + (r.usage?.outputTokens ?? 0), 0),
+        },
+        costUsd: all.reduce((sum, r) => sum + (r.costUsd ?? 0), 0),
+      }
+    : {};
+
+  const results = all.filter(r => r.outcome !== 'error');
+  if (results.length === 0) {
+    return { ...all[0], ...spend };
+  }
+
+  const passing = results.filter(r => r.pass);
+  const failing = results.filter(r => !r.pass);
+  const majority = passing.length > failing.length ? passing : failing;
+
+  const agreement = majority.length / results.length;
+  const unstable = majority.length < quorum;
+  const representative = majority[0];
+
+  return {
+    ...representative,
+    ...spend,
+    ...(unstable && { pass: false, outcome: 'error' }),
+    feedback: unstable
+      ? `Unstable judgment (${majority.length}/${results.length} agree, quorum ${quorum}): ` +
+        (failing[0]?.feedback ?? 'no failure feedback')
+      : representative.feedback,
+    agreement,
+    unstable,
+    votes: { pass: passing.length, fail: failing.length },
+  } as T & ConsensusInfo;
+}
@@ -0,0 +1,112 @@
+/**
+ * Structured Judge Output - Test Examples
+ *
+ * Shows how judgments survive chatty or malformed model output, and how
+ * unreadable output is reported as an error rather than a failure.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractJson, parseVerdict, requestJudgment, VERDICT_SCHEMA } from './judge-output';
+import { anthropicProvider, scriptedProvider, type AnthropicMessagesClient } from './judge-provider';
+import { createReview } from './llm-review';
+
+const request = {
+  model: 'claude-haiku-4-20250514',
+  system: 'Judge',
+  content: [{ type: 'text' as const, text: 'Criteria: Friendly' }],
+  maxTokens: 256,
+};
+
+// =============================================================================
+// Lenient Extraction
+// =============================================================================
+
+describe('extractJson', () => {
+  it('reads JSON wrapped in a markdown fence', () => {
+    expect(extractJson('```json\n{"pass": true}\n```')).toEqual({ pass: true });
+  });
+
+  it('ignores prose before and after the object', () => {
+    expect(
+      extractJson('Here is my verdict: {"pass": false, "feedback": "Uses {braces}"} Hope that helps!')
+    ).toEqual({ pass: false, feedback: 'Uses {braces}' });
+  });
+
+  it('throws when there is no object', () => {
+    expect(() => extractJson('Looks great to me')).toThrow('no JSON object');
+  });
+});
+
+// =============================================================================
+// Schema Enforcement and Repair
+// =============================================================================
+
+describe('requestJudgment', () => {
+  it('uses tool input when the provider enforces the schema', async () => {
+    const client: AnthropicMessagesClient = {
+      messages: {
+        async create(body) {
+          expect(body.tool_choice).toEqual({ type: 'tool', name: 'submit_verdict' });
+          return {
+            model: body.model,
+            content: [{ type: 'tool_use', input: { pass: true } }],
+          };
+        },
+      },
+    };
+
+    const judgment = await requestJudgment(
+      anthropicProvider(client),
+      request,
+      VERDICT_SCHEMA,
+      parseVerdict
+    );
+
+    expect(judgment).toMatchObject({ ok: true, value: { pass: true } });
+  });
+
+  it('repairs malformed output with a retry', async () => {
+    const provider = scriptedProvider(['{"pass": "yes"}', '{"pass": true}']);
+
+    const judgment = await requestJudgment(provider, request, VERDICT_SCHEMA, parseVerdict);
+
+    expect(judgment).toMatchObject({ ok: true, value: { pass: true } });
+    expect(provider.calls[1].system).toContain('repair');
+    expect(provider.calls[1].content[0]).toMatchObject({ text: expect.stringContaining('"pass" must be a boolean') });
+  });
+
+  it('gives up after the repair attempts', async () => {
+    const provider = scriptedProvider(['nope', 'still nope']);
+
+    const judgment = await requestJudgment(provider, request, VERDICT_SCHEMA, parseVerdict);
+
+    expect(judgment).toMatchObject({ ok: false, raw: 'still nope' });
+    expect(provider.calls).toHaveLength(2);
+  });
+});
+
+// =============================================================================
+// Error Outcome
+// =============================================================================
+
+describe('Review outcomes', () => {
+  it('reports unreadable output as an error, not a criteria failure', async () => {
+    const result = await createReview({
+      criteria: 'Friendly greeting',
+      artifact: 'Hello!',
+      provider: scriptedProvider(['I think it passes', 'Yes, it passes']),
+    });
+
+    expect(result.pass).toBe(false);
+    expect(result.outcome).toBe('error');
+  });
+
+  it('accepts a fenced verdict without a repair call', async () => {
+    const provider = scriptedProvider(['```json\n{"pass": false, "feedback": "Curt"}\n```']);
+
+    const result = await createReview({ criteria: 'Friendly greeting', artifact: 'Hi.', provider });
+
+    expect(result).toMatchObject({ pass: false, outcome: 'fail', feedback: 'Curt' });
+    expect(provider.calls).toHaveLength(1);
+  });
+});
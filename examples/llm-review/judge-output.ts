@@ -0,0 +1,184 @@
+/**
+ * Structured Judge Output
+ *
+ * Forces judgments through a tool/JSON-schema response instead of parsing
+ * free text, tolerates answers wrapped in markdown fences or followed by
+ * prose, and gives malformed output one repair-and-retry pass. When the
+ * judgment still can't be read, callers report an `error` outcome so
+ * infrastructure problems never masquerade as criteria failures.
+ */
+
+import type {
+  JudgeProvider,
+  JudgeRequest,
+  JudgeResponse,
+  JudgeSchema,
+  JudgeUsage,
+} from './judge-provider.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result of a judgment:
+ * - 'pass': criteria met
+ * - 'fail': criteria genuinely not met
+ * - 'error': the judgment itself failed (unreadable output, missing screenshot, ...)
+ */
+export type JudgeOutcome = 'pass' | 'fail' | 'error';
+
+export interface Verdict {
+  pass: boolean;
+  feedback?: string;
+}
+
+export type StructuredJudgment<T> = (
+  | { ok: true; value: T; response: JudgeResponse }
+  | { ok: false; error: string; raw: string }
+) & {
+  /** Tokens used across the initial call and any repair attempts */
+  usage: JudgeUsage;
+};
+
+export interface StructuredJudgmentOptions {
+  /** Extra attempts asking the judge to fix malformed output (default: 1) */
+  repairAttempts?: number;
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+export const VERDICT_SCHEMA: JudgeSchema = {
+  name: 'submit_verdict',
+  description: 'Submit the pass/fail verdict for the evaluated content',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      pass: { type: 'boolean', description: 'Whether the criteria are clearly met' },
+      feedback: { type: 'string', description: 'Specific, actionable reason for failure' },
+    },
+    required: ['pass'],
+  },
+};
+
+/**
+ * Validate a verdict object, throwing a description of what's wrong
+ */
+export function parseVerdict(value: unknown): Verdict {
+  const record = asRecord(value);
+  if (typeof record.pass !== 'boolean') {
+    throw new Error('"pass" must be a boolean');
+  }
+  if (record.feedback !== undefined && typeof record.feedback !== 'string') {
+    throw new Error('"feedback" must be a string');
+  }
+  return { pass: record.pass, feedback: record.feedback as string | undefined };
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Ensure a parsed value is a plain object
+ */
+export function asRecord(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('expected a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Pull the first JSON object out of free text, ignoring markdown fences
+ * and any prose before or after it
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to scanning for an embedded object
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : trimmed;
+  const start = source.indexOf('{');
+  if (start === -1) {
+    throw new Error('no JSON object found');
+  }
+
+  // Walk to the matching closing brace, skipping braces inside strings
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return JSON.parse(source.slice(start, i + 1));
+    }
+  }
+
+  throw new Error('unterminated JSON object');
+}
+
+/**
+ * Run a judgment constrained to a schema, repairing malformed output.
+ * Provider errors (network, auth, cassette misses) are not caught.
+ */
+export async function requestJudgment<T>(
+  provider: JudgeProvider,
+  request: JudgeRequest,
+  schema: JudgeSchema,
+  parse: (value: unknown) => T,
+  options: StructuredJudgmentOptions = {}
+): Promise<StructuredJudgment<T>> {
+  const repairAttempts = options.repairAttempts ?? 1;
+
+  const usage: JudgeUsage = { inputTokens: 0, outputTokens: 0 };
+
+  let response = await provider.complete({ ...request, schema });
+  for (let attempt = 0; ; attempt++) {
+    usage.inputTokens += response.usage?.inputTokens ?? 0;
+    usage.outputTokens += response.usage?.outputTokens ?? 0;
+
+    let problem: string;
+    try {
+      const candidate = response.data !== undefined ? response.data : extractJson(response.text);
+      return { ok: true, value: parse(candidate), response, usage };
+    } catch (error) {
+      problem = error instanceof Error ? error.message : String(error);
+    }
+
+    const raw = response.data !== undefined ? JSON.stringify(response.data) : response.text;
+    if (attempt >= repairAttempts) {
+      return { ok: false, error: `${problem}: ${raw}`, raw, usage };
+    }
+
+    response = await provider.complete({
+      model: request.model,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      schema,
+      system: `You repair malformed judge output. Return ONLY a JSON object matching this JSON Schema, with no other text:
+
+${JSON.stringify(schema.inputSchema)}`,
+      content: [{
+        type: 'text',
+        text: `This response could not be used (${problem}):
+
+${raw}
+
+Return the corrected JSON:`,
+      }],
+    });
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Judge Provider - Test Examples
+ *
+ * Shows how to run llm-review against a scripted or local judge so suites
+ * work offline and in CI without an API key.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  judgeProviderFromEnv,
+  ollamaProvider,
+  openAICompatibleProvider,
+  scriptedProvider,
+  setDefaultJudgeProvider,
+} from './judge-provider';
+import { createReview, reviewText } from './llm-review';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Request body captured by startJsonServer, plus the path it was sent to */
+interface CapturedBody {
+  url?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Start a one-route JSON server and return its base URL plus captured bodies
+ */
+async function startJsonServer(reply: unknown): Promise<{
+  baseUrl: string;
+  bodies: CapturedBody[];
+  close: () => void;
+}> {
+  const bodies: CapturedBody[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      bodies.push({ url: req.url, ...JSON.parse(raw) });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(reply));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { baseUrl: `http://127.0.0.1:${port}`, bodies, close: () => server.close() };
+}
+
+// =============================================================================
+// Scripted Provider
+// =============================================================================
+
+describe('Scripted judge', () => {
+  afterEach(() => setDefaultJudgeProvider(undefined));
+
+  it('drives createReview without an API key', async () => {
+    const provider = scriptedProvider(['{"pass": false, "feedback": "Too formal"}']);
+
+    const result = await createReview({
+      criteria: 'Warm, conversational tone',
+      artifact: 'Dear Sir or Madam, please find enclosed...',
+      provider,
+    });
+
+    expect(result).toMatchObject({ pass: false, outcome: 'fail', feedback: 'Too formal' });
+    expect(provider.calls[0].content[0]).toMatchObject({ type: 'text' });
+  });
+
+  it('applies to convenience functions via the default provider', async () => {
+    setDefaultJudgeProvider(scriptedProvider(() => '{"pass": true}'));
+
+    const result = await reviewText('Hey there!', 'Friendly greeting');
+
+    expect(result.pass).toBe(true);
+  });
+
+  it('fails loudly when the script runs out', async () => {
+    const provider = scriptedProvider([]);
+
+    await expect(
+      provider.complete({ model: 'm', system: '', content: [], maxTokens: 1 })
+    ).rejects.toThrow('exhausted');
+  });
+});
+
+// =============================================================================
+// HTTP Providers
+// =============================================================================
+
+describe('HTTP judges', () => {
+  it('maps requests to OpenAI-compatible chat completions', async () => {
+    const server = await startJsonServer({
+      model: 'local-vlm',
+      choices: [{ message: { content: '{"pass": true}' } }],
+      usage: { prompt_tokens: 12, completion_tokens: 3 },
+    });
+
+    try {
+      const provider = openAICompatibleProvider({ baseUrl: server.baseUrl, model: 'local-vlm' });
+      const response = await provider.complete({
+        model: 'claude-haiku-4-20250514',
+        system: 'Judge',
+        content: [
+          { type: 'text', text: 'Criteria' },
+          { type: 'image', mediaType: 'image/png', data: 'AAAA' },
+        ],
+        maxTokens: 64,
+      });
+
+      expect(response).toEqual({
+        text: '{"pass": true}',
+        model: 'local-vlm',
+        usage: { inputTokens: 12, outputTokens: 3 },
+      });
+      expect(server.bodies[0]).toMatchObject({
+        url: '/chat/completions',
+        messages: [{}, { content: [{}, { image_url: { url: 'data:image/png;base64,AAAA' } }] }],
+      });
+    } finally {
+      server.close();
+    }
+  });
+
+  it('maps requests to Ollama chat', async () => {
+    const server = await startJsonServer({
+      model: 'llava',
+      message: { content: '{"pass": false, "feedback": "Blurry"}' },
+      prompt_eval_count: 40,
+      eval_count: 9,
+    });
+
+    try {
+      const provider = ollamaProvider({ baseUrl: server.baseUrl, model: 'llava' });
+      const response = await provider.complete({
+        model: 'claude-sonnet-4-20250514',
+        system: 'Judge',
+        content: [
+          { type: 'text', text: 'Criteria' },
+          { type: 'image', mediaType: 'image/png', data: 'BBBB' },
+        ],
+        maxTokens: 64,
+      });
+
+      expect(response.usage).toEqual({ inputTokens: 40, outputTokens: 9 });
+      expect(server.bodies[0]).toMatchObject({
+        url: '/api/chat',
+        model: 'llava',
+        stream: false,
+        messages: [{ role: 'system' }, { role: 'user', content: 'Criteria', images: ['BBBB'] }],
+      });
+    } finally {
+      server.close();
+    }
+  });
+});
+
+// =============================================================================
+// Environment Resolution
+// =============================================================================
+
+describe('Provider from environment', () => {
+  it('defaults to Anthropic when unset', () => {
+    expect(judgeProviderFromEnv({})).toBeUndefined();
+  });
+
+  it('selects local providers by name', () => {
+    expect(judgeProviderFromEnv({ RALPH_JUDGE_PROVIDER: 'ollama' })?.name).toBe('ollama');
+    expect(judgeProviderFromEnv({ RALPH_JUDGE_PROVIDER: 'openai' })?.name).toBe('openai');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => judgeProviderFromEnv({ RALPH_JUDGE_PROVIDER: 'nope' })).toThrow('nope');
+  });
+});
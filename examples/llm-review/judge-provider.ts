@@ -0,0 +1,465 @@
+/**
+ * Judge Provider Abstraction
+ *
+ * Decouples llm-review and visual-testing from a specific model API so
+ * judgments can run against Anthropic, an OpenAI-compatible endpoint, a
+ * local Ollama server, or a deterministic scripted fake in CI.
+ *
+ * Usage:
+ *   import { ollamaProvider, setDefaultJudgeProvider } from './judge-provider';
+ *
+ *   // Per call
+ *   await createReview({ criteria, artifact, provider: ollamaProvider({ model: 'llava' }) });
+ *
+ *   // Whole suite (e.g. in a vitest setup file)
+ *   setDefaultJudgeProvider(scriptedProvider(['{"pass": true}']));
+ *
+ * Environment (used when no provider is passed or set):
+ *   RALPH_JUDGE_PROVIDER  anthropic | openai | ollama (default: anthropic)
+ *   RALPH_JUDGE_BASE_URL  Endpoint for openai/ollama providers
+ *   RALPH_JUDGE_API_KEY   Bearer token for openai provider
+ *   RALPH_JUDGE_MODEL     Model override for openai/ollama providers
+ *   RALPH_JUDGE_CASSETTE  record | replay | auto (see judge-cassette)
+ */
+
+import { cassetteOptionsFromEnv, cassetteProvider, isCassetteProvider } from './judge-cassette.js';
+import { modelPricing } from './model-registry.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JudgeImageMediaType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export type JudgeContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: JudgeImageMediaType; data: string }
+  | { type: 'document'; mediaType: 'application/pdf'; data: string };
+
+export interface JudgeSchema {
+  /** Tool / response format name, e.g. 'submit_verdict' */
+  name: string;
+
+  /** What the structured response represents */
+  description: string;
+
+  /** JSON Schema (type: 'object') the judgment must match */
+  inputSchema: Record<string, unknown>;
+}
+
+export interface JudgeRequest {
+  /** Model ID requested by the caller (providers may override) */
+  model: string;
+
+  /** System prompt describing the judge's task and output format */
+  system: string;
+
+  /** User message content: text, base64 images and PDFs, in order */
+  content: JudgeContentBlock[];
+
+  /** Upper bound on response tokens */
+  maxTokens: number;
+
+  /** Sampling temperature (default: the backend's) */
+  temperature?: number;
+
+  /** Structured output schema; providers that support it enforce it */
+  schema?: JudgeSchema;
+}
+
+export interface JudgeUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface JudgeResponse {
+  /** Concatenated text output of the judge */
+  text: string;
+
+  /** Structured judgment, when the provider enforced the request schema */
+  data?: unknown;
+
+  /** Model that actually produced the response */
+  model: string;
+
+  /** Token usage, when the backend reports it */
+  usage?: JudgeUsage;
+}
+
+export interface JudgeProvider {
+  /** Short identifier for logs and reports, e.g. 'anthropic' or 'ollama' */
+  readonly name: string;
+
+  /** Run a single judgment request */
+  complete(request: JudgeRequest): Promise<JudgeResponse>;
+}
+
+/**
+ * Minimal shape of the Anthropic SDK client used by anthropicProvider.
+ * Kept structural so this module has no SDK dependency of its own.
+ */
+export interface AnthropicMessagesClient {
+  messages: {
+    create(body: {
+      model: string;
+      max_tokens: number;
+      temperature?: number;
+      system: string;
+      messages: Array<{
+        role: 'user';
+        content: Array<
+          | { type: 'text'; text: string }
+          | { type: 'image'; source: { type: 'base64'; media_type: JudgeImageMediaType; data: string } }
+          | { type: 'document'; source: { type: 'base64'; media_type: 'application/pdf'; data: string } }
+        >;
+      }>;
+      tools?: Array<{
+        name: string;
+        description: string;
+        input_schema: { type: 'object'; [key: string]: unknown };
+      }>;
+      tool_choice?: { type: 'tool'; name: string };
+    }): PromiseLike<{
+      model: string;
+      content: Array<{ type: string; text?: string; input?: unknown }>;
+      usage?: { input_tokens: number; output_tokens: number };
+    }>;
+  };
+}
+
+export interface HttpProviderOptions {
+  /** Endpoint root, e.g. 'http://localhost:8000/v1' */
+  baseUrl?: string;
+
+  /** Model to use instead of the one requested by the library */
+  model?: string;
+
+  /** Bearer token (OpenAI-compatible endpoints only) */
+  apiKey?: string;
+
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+export type ScriptedResponse = string | ((request: JudgeRequest) => string);
+
+export interface ScriptedProvider extends JudgeProvider {
+  /** Every request received, in order */
+  readonly calls: JudgeRequest[];
+}
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+/**
+ * Anthropic Messages API via an SDK client
+ */
+export function anthropicProvider(client: AnthropicMessagesClient): JudgeProvider {
+  return {
+    name: 'anthropic',
+    async complete(request) {
+      const response = await client.messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        system: request.system,
+        messages: [{
+          role: 'user',
+          content: request.content.map(block => {
+            switch (block.type) {
+              case 'text':
+                return block;
+              case 'image':
+                return {
+                  type: 'image' as const,
+                  source: { type: 'base64' as const, media_type: block.mediaType, data: block.data },
+                };
+              case 'document':
+                return {
+                  type: 'document' as const,
+                  source: { type: 'base64' as const, media_type: block.mediaType, data: block.data },
+                };
+            }
+          }),
+        }],
+        // Force the judgment through a tool call so the input is schema-shaped JSON
+        ...(request.schema
+          ? {
+              tools: [{
+                name: request.schema.name,
+                description: request.schema.description,
+                input_schema: { type: 'object' as const, ...request.schema.inputSchema },
+              }],
+              tool_choice: { type: 'tool' as const, name: request.schema.name },
+            }
+          : {}),
+      });
+
+      const toolUse = response.content.find(block => block.type === 'tool_use');
+
+      return {
+        text: response.content
+          .filter(block => block.type === 'text')
+          .map(block => block.text ?? '')
+          .join(''),
+        data: toolUse?.input,
+        model: response.model,
+        usage: response.usage && {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * OpenAI-compatible /chat/completions endpoint (vLLM, LM Studio, OpenRouter, ...)
+ */
+export function openAICompatibleProvider(options: HttpProviderOptions = {}): JudgeProvider {
+  const baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+
+  return {
+    name: 'openai',
+    async complete(request) {
+      const model = options.model || request.model;
+      const body = await postJson(
+        `${baseUrl}/chat/completions`,
+        {
+          model,
+          max_tokens: request.maxTokens,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.schema
+            ? {
+                response_format: {
+                  type: 'json_schema',
+                  json_schema: { name: request.schema.name, schema: request.schema.inputSchema },
+                },
+              }
+            : {}),
+          messages: [
+            { role: 'system', content: request.system },
+            {
+              role: 'user',
+              content: request.content.map(block => {
+                const url = block.type === 'text' ? '' : `data:${block.mediaType};base64,${block.data}`;
+                switch (block.type) {
+                  case 'text':
+                    return { type: 'text', text: block.text };
+                  case 'image':
+                    return { type: 'image_url', image_url: { url } };
+                  case 'document':
+                    return { type: 'file', file: { filename: 'artifact.pdf', file_data: url } };
+                }
+              }),
+            },
+          ],
+        },
+        {
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          ...options.headers,
+        }
+      ) as {
+        model?: string;
+        choices?: Array<{ message?: { content?: string } }>;
+        usage?: { prompt_tokens: number; completion_tokens: number };
+      };
+
+      return {
+        text: body.choices?.[0]?.message?.content ?? '',
+        model: body.model || model,
+        usage: body.usage && {
+          inputTokens: body.usage.prompt_tokens,
+          outputTokens: body.usage.completion_tokens,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Local Ollama-style /api/chat server
+ */
+export function ollamaProvider(options: HttpProviderOptions = {}): JudgeProvider {
+  const baseUrl = (options.baseUrl || 'http://localhost:11434').replace(/\/$/, '');
+
+  return {
+    name: 'ollama',
+    async complete(request) {
+      const model = options.model || request.model;
+      if (request.content.some(block => block.type === 'document')) {
+        throw new Error('Ollama judge does not support PDF documents; use anthropic or openai');
+      }
+      const text = request.content
+        .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+        .map(block => block.text)
+        .join('\n\n');
+      const images = request.content
+        .filter(block => block.type === 'image')
+        .map(block => (block as { data: string }).data);
+
+      const body = await postJson(
+        `${baseUrl}/api/chat`,
+        {
+          model,
+          stream: false,
+          options: { num_predict: request.maxTokens, temperature: request.temperature },
+          ...(request.schema ? { format: request.schema.inputSchema } : {}),
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: text, ...(images.length > 0 ? { images } : {}) },
+          ],
+        },
+        options.headers
+      ) as {
+        model?: string;
+        message?: { content?: string };
+        prompt_eval_count?: number;
+        eval_count?: number;
+      };
+
+      return {
+        text: body.message?.content ?? '',
+        model: body.model || model,
+        usage: body.prompt_eval_count !== undefined
+          ? { inputTokens: body.prompt_eval_count, outputTokens: body.eval_count ?? 0 }
+          : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Deterministic fake that replays canned responses in order.
+ * A single function response is reused for every call.
+ */
+export function scriptedProvider(
+  script: ScriptedResponse[] | ((request: JudgeRequest) => string),
+  usage: JudgeUsage = { inputTokens: 0, outputTokens: 0 }
+): ScriptedProvider {
+  const calls: JudgeRequest[] = [];
+
+  return {
+    name: 'scripted',
+    calls,
+    async complete(request) {
+      calls.push(request);
+      const next = typeof script === 'function' ? script : script[calls.length - 1];
+      if (next === undefined) {
+        throw new Error(`Scripted judge exhausted after ${script.length} responses`);
+      }
+      return {
+        text: typeof next === 'function' ? next(request) : next,
+        model: request.model,
+        usage,
+      };
+    },
+  };
+}
+
+// =============================================================================
+// Pricing
+// =============================================================================
+
+/**
+ * USD per million tokens, used for cost estimates when the model
+ * registry doesn't price a model. Models priced nowhere cost zero.
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-haiku-4-20250514': { input: 0.8, output: 4 },
+};
+
+/**
+ * Estimate the USD cost of a judgment
+ */
+export function estimateCostUsd(model: string, usage: JudgeUsage): number {
+  const price = modelPricing(model) ?? MODEL_PRICING[model];
+  if (!price) {
+    return 0;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+// =============================================================================
+// Default Provider Resolution
+// =============================================================================
+
+let defaultProvider: JudgeProvider | undefined;
+
+/**
+ * Override the provider used when a call doesn't pass one explicitly.
+ * Pass undefined to restore environment/Anthropic resolution.
+ */
+export function setDefaultJudgeProvider(provider: JudgeProvider | undefined): void {
+  defaultProvider = provider;
+}
+
+/**
+ * Build a provider from RALPH_JUDGE_* environment variables.
+ * Returns undefined when the Anthropic default should be used.
+ */
+export function judgeProviderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): JudgeProvider | undefined {
+  const options: HttpProviderOptions = {
+    baseUrl: env.RALPH_JUDGE_BASE_URL,
+    model: env.RALPH_JUDGE_MODEL,
+    apiKey: env.RALPH_JUDGE_API_KEY,
+  };
+
+  switch (env.RALPH_JUDGE_PROVIDER) {
+    case undefined:
+    case '':
+    case 'anthropic':
+      return undefined;
+    case 'openai':
+      return openAICompatibleProvider(options);
+    case 'ollama':
+      return ollamaProvider(options);
+    default:
+      throw new Error(`Unknown RALPH_JUDGE_PROVIDER: ${env.RALPH_JUDGE_PROVIDER}`);
+  }
+}
+
+/**
+ * Pick the provider for a call: explicit, then default, then environment,
+ * then the library's own Anthropic fallback. Wrapped in a cassette when
+ * RALPH_JUDGE_CASSETTE is set, unless it already is one.
+ */
+export function resolveJudgeProvider(
+  explicit: JudgeProvider | undefined,
+  fallback: () => JudgeProvider
+): JudgeProvider {
+  const provider = explicit ?? defaultProvider ?? judgeProviderFromEnv() ?? fallback();
+  const cassette = cassetteOptionsFromEnv();
+  return cassette && !isCassetteProvider(provider) ? cassetteProvider(provider, cassette) : provider;
+}
+
+// =============================================================================
+// Internal Utilities
+// =============================================================================
+
+async function postJson(
+  url: string,
+  payload: unknown,
+  headers: Record<string, string> = {}
+): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    // Expose status like SDK errors do, so callers can retry 429/529
+    throw Object.assign(
+      new Error(`Judge request to ${url} failed: ${response.status} ${detail}`.trim()),
+      { status: response.status }
+    );
+  }
+
+  return response.json();
+}
@@ -0,0 +1,138 @@
+/**
+ * Judgment Cache - Test Examples
+ *
+ * Shows how unchanged artifacts reuse earlier verdicts, how entries expire
+ * and are cleared, and how near-identical screenshots match by perceptual
+ * hash. Uses a scripted judge, so no API key is needed. Cached visual
+ * assertions are covered in visual-testing.test.ts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createReview } from './llm-review';
+import { scriptedProvider } from './judge-provider';
+import {
+  clearJudgmentCache,
+  hashDistance,
+  lookupJudgment,
+  resolveJudgmentCache,
+  setJudgmentCache,
+  storeJudgment,
+  type JudgmentKey,
+} from './judgment-cache';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'judgment-cache-'));
+  setJudgmentCache({ dir: path.join(dir, 'cache') });
+});
+
+afterEach(() => {
+  setJudgmentCache(undefined);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Reviews
+// =============================================================================
+
+describe('Cached reviews', () => {
+  it('reuses the verdict for unchanged content at no cost', async () => {
+    const provider = scriptedProvider(() => '{"pass": false, "feedback": "Too formal"}', { inputTokens: 1000, outputTokens: 10 });
+    const review = (artifact: string, criteria = 'Warm tone') => createReview({ criteria, artifact, provider });
+
+    const first = await review('Dear customer, your order has shipped.');
+    const second = await review('Dear customer, your order has shipped.');
+
+    expect(provider.calls).toHaveLength(1);
+    expect(second).toMatchObject({ outcome: 'fail', feedback: 'Too formal', cached: true, costUsd: 0 });
+    expect(first.cached).toBeUndefined();
+
+    await review('Hey! Your order is on its way.');
+    await review('Dear customer, your order has shipped.', 'Concise');
+    await createReview({ criteria: 'Warm tone', artifact: 'Dear customer, your order has shipped.', provider, cache: false });
+    expect(provider.calls).toHaveLength(4);
+  });
+
+  it('never caches judge errors', async () => {
+    const provider = scriptedProvider(() => 'not json');
+
+    await createReview({ criteria: 'Warm tone', artifact: 'Hello', provider });
+    const retried = await createReview({ criteria: 'Warm tone', artifact: 'Hello', provider });
+
+    expect(retried).toMatchObject({ outcome: 'error' });
+    expect(retried.cached).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Expiry and Invalidation
+// =============================================================================
+
+describe('Cache expiry and invalidation', () => {
+  const key = (criteria: string): JudgmentKey => ({
+    kind: 'review',
+    criteria,
+    promptVersion: 1,
+    model: 'claude-haiku-4-20250514',
+    artifactHash: 'a'.repeat(64),
+  });
+
+  it('drops entries older than the TTL', () => {
+    const cache = { dir: path.join(dir, 'cache'), ttlMs: 60_000 };
+    storeJudgment(key('Warm tone'), { pass: true, outcome: 'pass' }, cache);
+    expect(lookupJudgment(key('Warm tone'), cache)?.result).toEqual({ pass: true, outcome: 'pass' });
+
+    const [scope] = fs.readdirSync(cache.dir);
+    const file = path.join(cache.dir, scope, `${'a'.repeat(32)}.json`);
+    const entry = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    fs.writeFileSync(file, JSON.stringify({ ...entry, createdAt: new Date(Date.now() - 120_000).toISOString() }));
+
+    expect(lookupJudgment(key('Warm tone'), cache)).toBeUndefined();
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it('clears entries by criteria', () => {
+    const cache = { dir: path.join(dir, 'cache') };
+    storeJudgment(key('Warm tone'), { outcome: 'pass' }, cache);
+    storeJudgment(key('Concise'), { outcome: 'pass' }, cache);
+
+    expect(clearJudgmentCache({ criteria: 'Warm tone' }, cache)).toBe(1);
+    expect(lookupJudgment(key('Warm tone'), cache)).toBeUndefined();
+    expect(lookupJudgment(key('Concise'), cache)).toBeDefined();
+  });
+
+  it('matches screenshots by perceptual hash within the allowed distance', () => {
+    const cache = { dir: path.join(dir, 'cache'), perceptualDistance: 4 };
+    const shot = (artifactHash: string, perceptualHash: string): JudgmentKey => ({
+      kind: 'visual',
+      criteria: 'Single clear call to action',
+      promptVersion: 1,
+      model: 'claude-sonnet-4-20250514',
+      artifactHash,
+      perceptualHash,
+    });
+    storeJudgment(shot('a'.repeat(64), 'f0f0'), { outcome: 'pass' }, cache);
+
+    expect(hashDistance('f0f0', 'f0f3')).toBe(2);
+    expect(lookupJudgment(shot('b'.repeat(64), 'f0f3'), cache)).toBeDefined();
+    expect(lookupJudgment(shot('c'.repeat(64), '0f0f'), cache)).toBeUndefined();
+    expect(() => hashDistance('ff', 'ffff')).toThrow('different sizes');
+  });
+
+  it('reads its settings from the environment', () => {
+    setJudgmentCache(undefined);
+
+    expect(resolveJudgmentCache({})).toBeUndefined();
+    expect(resolveJudgmentCache({
+      RALPH_JUDGMENT_CACHE: './cache',
+      RALPH_JUDGMENT_CACHE_TTL: '12h',
+      RALPH_JUDGMENT_CACHE_PERCEPTUAL: '6',
+    })).toEqual({ dir: './cache', ttlMs: 12 * 3_600_000, perceptualDistance: 6 });
+    expect(() => resolveJudgmentCache({ RALPH_JUDGMENT_CACHE: './cache', RALPH_JUDGMENT_CACHE_TTL: 'soon' }))
+      .toThrow('Invalid duration: soon');
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Judgment Cache
+ *
+ * In a build loop the same unchanged copy and screenshots are judged again
+ * every iteration, paying for the call and risking a flipped verdict. The
+ * judgment cache stores final verdicts on disk keyed on the artifact's
+ * content hash, the criteria, the prompt version and the model, so an
+ * unchanged artifact reuses its earlier verdict. Screenshots can also match
+ * by perceptual hash, so near-identical renders reuse a verdict too.
+ *
+ * Unlike cassettes, which replay raw judge responses so CI is deterministic,
+ * cached verdicts expire after a TTL and can be cleared by criteria or age.
+ * Errors and unstable consensus verdicts are never cached.
+ *
+ * Usage:
+ *   import { clearJudgmentCache, setJudgmentCache } from './judgment-cache';
+ *
+ *   setJudgmentCache({ dir: './tmp/judgment-cache', ttlMs: 24 * 60 * 60 * 1000 });
+ *   await createReview({ criteria, artifact });   // judged once, then reused
+ *   clearJudgmentCache({ criteria: 'Warm, conversational tone' });
+ *
+ * Environment (used when no cache is set):
+ *   RALPH_JUDGMENT_CACHE             Cache directory (default: caching off)
+ *   RALPH_JUDGMENT_CACHE_TTL         Maximum age, e.g. 90m, 12h or 7d (default: no expiry)
+ *   RALPH_JUDGMENT_CACHE_PERCEPTUAL  Screenshot hash bits that may differ for a reuse (default: exact only)
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JudgeUsage } from './judge-provider.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JudgmentCacheOptions {
+  /** Directory holding one JSON file per verdict */
+  dir: string;
+
+  /** Verdicts older than this many ms are judged again (default: no expiry) */
+  ttlMs?: number;
+
+  /**
+   * Perceptual hash bits (of 256) a screenshot may differ by and still reuse
+   * a verdict. Default: undefined, only byte-identical screenshots match
+   */
+  perceptualDistance?: number;
+}
+
+export interface JudgmentKey {
+  /** 'review' for llm-review, 'visual' for visual-testing */
+  kind: 'review' | 'visual';
+
+  criteria: string;
+
+  /** Version of the prompt that produced the verdict */
+  promptVersion: number;
+
+  /** Model the judgment starts on */
+  model: string;
+
+  /** Other settings that change the verdict, e.g. a rubric or sample count */
+  settings?: unknown;
+
+  /** SHA-256 of the artifact content */
+  artifactHash: string;
+
+  /** Perceptual hash of a screenshot (hex, as perceptualHash returns), for near-identical matches */
+  perceptualHash?: string;
+}
+
+export interface CachedJudgment {
+  key: JudgmentKey;
+
+  /** ISO timestamp of when the verdict was stored */
+  createdAt: string;
+
+  result: unknown;
+}
+
+export interface CacheInfo {
+  /** True when the verdict was reused from the judgment cache */
+  cached?: boolean;
+}
+
+export interface JudgmentCacheFilter {
+  kind?: 'review' | 'visual';
+
+  /** Only verdicts for exactly this criteria */
+  criteria?: string;
+
+  /** Only verdicts older than this many ms */
+  olderThanMs?: number;
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+let cacheOverride: JudgmentCacheOptions | undefined;
+
+/**
+ * Use a judgment cache instead of RALPH_JUDGMENT_CACHE*. Pass undefined
+ * to restore environment resolution.
+ */
+export function setJudgmentCache(options: JudgmentCacheOptions | undefined): void {
+  cacheOverride = options;
+}
+
+/**
+ * Parse a duration such as 90m, 12h, 7d or a bare number of seconds
+ */
+export function parseDuration(text: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${text} (expected e.g. 90m, 12h or 7d)`);
+  }
+  const units: Record<string, number> = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+  return Number(match[1]) * units[match[2] ?? 's'];
+}
+
+/**
+ * The cache in use, or undefined when caching is off
+ */
+export function resolveJudgmentCache(
+  env: Record<string, string | undefined> = process.env
+): JudgmentCacheOptions | undefined {
+  if (cacheOverride) {
+    return cacheOverride;
+  }
+  const dir = env.RALPH_JUDGMENT_CACHE;
+  if (!dir || dir === 'off') {
+    return undefined;
+  }
+
+  const perceptual = env.RALPH_JUDGMENT_CACHE_PERCEPTUAL;
+  if (perceptual && !/^\d+$/.test(perceptual)) {
+    throw new Error(`RALPH_JUDGMENT_CACHE_PERCEPTUAL must be a number of bits, got ${perceptual}`);
+  }
+  return {
+    dir,
+    ttlMs: env.RALPH_JUDGMENT_CACHE_TTL ? parseDuration(env.RALPH_JUDGMENT_CACHE_TTL) : undefined,
+    perceptualDistance: perceptual ? Number(perceptual) : undefined,
+  };
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * SHA-256 of artifact content, for JudgmentKey.artifactHash
+ */
+export function contentHash(value: string | Buffer): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Number of differing bits between two perceptual hashes of the same size
+ */
+export function hashDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare perceptual hashes of different sizes (${a.length * 4} and ${b.length * 4} bits)`);
+  }
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; bits; bits &= bits - 1) distance++;
+  }
+  return distance;
+}
+
+/**
+ * Directory for every verdict sharing a key's criteria, prompt, model and settings
+ */
+function scopeDir(cache: JudgmentCacheOptions, key: JudgmentKey): string {
+  const { kind, criteria, promptVersion, model, settings } = key;
+  return path.join(cache.dir, contentHash(JSON.stringify({ kind, criteria, promptVersion, model, settings })).slice(0, 16));
+}
+
+function readEntry(file: string): CachedJudgment | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as CachedJudgment;
+  } catch {
+    // Half-written or hand-edited entries are treated as misses
+    return undefined;
+  }
+}
+
+function isExpired(entry: CachedJudgment, cache: JudgmentCacheOptions, now: number): boolean {
+  return cache.ttlMs !== undefined && now - Date.parse(entry.createdAt) > cache.ttlMs;
+}
+
+/**
+ * Find a stored verdict for a key: the same artifact bytes, or with a
+ * perceptual hash within the cache's perceptualDistance. Expired entries
+ * are deleted as they are found.
+ */
+export function lookupJudgment(key: JudgmentKey, cache: JudgmentCacheOptions): CachedJudgment | undefined {
+  const dir = scopeDir(cache, key);
+  const now = Date.now();
+  const usable = (file: string): CachedJudgment | undefined => {
+    const entry = readEntry(file);
+    if (entry && isExpired(entry, cache, now)) {
+      fs.rmSync(file, { force: true });
+      return undefined;
+    }
+    return entry;
+  };
+
+  const exact = path.join(dir, `${key.artifactHash.slice(0, 32)}.json`);
+  if (fs.existsSync(exact)) {
+    const entry = usable(exact);
+    if (entry) return entry;
+  }
+
+  if (!key.perceptualHash || cache.perceptualDistance === undefined || !fs.existsSync(dir)) {
+    return undefined;
+  }
+  let best: { entry: CachedJudgment; distance: number } | undefined;
+  for (const name of fs.readdirSync(dir)) {
+    const entry = usable(path.join(dir, name));
+    const stored = entry?.key.perceptualHash;
+    if (!entry || !stored || stored.length !== key.perceptualHash.length) continue;
+    const distance = hashDistance(stored, key.perceptualHash);
+    if (distance <= cache.perceptualDistance && (!best || distance < best.distance)) {
+      best = { entry, distance };
+    }
+  }
+  return best?.entry;
+}
+
+/**
+ * Store a verdict under its key
+ */
+export function storeJudgment(key: JudgmentKey, result: unknown, cache: JudgmentCacheOptions): void {
+  const dir = scopeDir(cache, key);
+  fs.mkdirSync(dir, { recursive: true });
+  const entry: CachedJudgment = { key, createdAt: new Date().toISOString(), result };
+  fs.writeFileSync(path.join(dir, `${key.artifactHash.slice(0, 32)}.json`), JSON.stringify(entry, null, 2) + '\n');
+}
+
+/**
+ * Delete cached verdicts matching a filter (all of them by default).
+ * Returns the number removed.
+ */
+export function clearJudgmentCache(
+  filter: JudgmentCacheFilter = {},
+  cache: JudgmentCacheOptions | undefined = resolveJudgmentCache()
+): number {
+  if (!cache || !fs.existsSync(cache.dir)) {
+    return 0;
+  }
+
+  const now = Date.now();
+  let removed = 0;
+  for (const scope of fs.readdirSync(cache.dir, { withFileTypes: true })) {
+    if (!scope.isDirectory()) continue;
+    const dir = path.join(cache.dir, scope.name);
+    for (const name of fs.readdirSync(dir)) {
+      const file = path.join(dir, name);
+      const entry = readEntry(file);
+      const matches =
+        !entry ||
+        ((filter.kind === undefined || entry.key.kind === filter.kind) &&
+          (filter.criteria === undefined || entry.key.criteria === filter.criteria) &&
+          (filter.olderThanMs === undefined || now - Date.parse(entry.createdAt) > filter.olderThanMs));
+      if (matches) {
+        fs.rmSync(file, { force: true });
+        removed++;
+      }
+    }
+    if (fs.readdirSync(dir).length === 0) {
+      fs.rmdirSync(dir);
+    }
+  }
+  return removed;
+}
+
+// =============================================================================
+// Cached Judgments
+// =============================================================================
+
+/**
+ * Reuse a cached verdict for the key, or run the judgment and cache a
+ * genuine, stable verdict. Reused verdicts cost nothing and are marked
+ * `cached`. The key is only built when a cache is enabled, so hashing
+ * costs nothing otherwise. Pass `enabled` false to bypass the cache.
+ */
+export async function withJudgmentCache<
+  T extends { outcome?: string; unstable?: boolean; usage?: JudgeUsage; costUsd?: number }
+>(
+  buildKey: (cache: JudgmentCacheOptions) => JudgmentKey,
+  enabled: boolean | undefined,
+  judge: () => Promise<T>
+): Promise<T & CacheInfo> {
+  const cache = enabled === false ? undefined : resolveJudgmentCache();
+  if (!cache) {
+    return judge();
+  }
+
+  const key = buildKey(cache);
+  const hit = lookupJudgment(key, cache);
+  if (hit) {
+    return {
+      ...(hit.result as T),
+      usage: { inputTokens: 0, outputTokens: 0 },
+      costUsd: 0,
+      cached: true,
+    };
+  }
+
+  const result = await judge();
+  if ((result.outcome === 'pass' || result.outcome === 'fail') && !result.unstable) {
+    storeJudgment(key, result, cache);
+  }
+  return result;
+}
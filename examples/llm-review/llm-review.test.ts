@@ -6,7 +6,15 @@
  */
 
 import { describe, it, expect, beforeAll } from 'vitest';
-import { createReview, reviewText, reviewImage, reviewStrict } from './llm-review';
+import {
+  createReview,
+  reviewText,
+  reviewImage,
+  reviewStrict,
+  reviewBatch,
+  compareReview,
+} from './llm-review';
+import { scriptedProvider, setDefaultJudgeProvider, type JudgeProvider } from './judge-provider';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -267,3 +275,205 @@ describe('Content quality evaluation', () => {
     expect(result.pass).toBe(true);
   });
 });
+
+// =============================================================================
+// Rubric Scoring Examples
+// =============================================================================
+
+describe('Rubric scoring', () => {
+  it('scores onboarding copy against a weighted rubric', async () => {
+    const onboardingCopy = `
+      Welcome to ColorPal! Upload an image to get started.
+      We'll pull out 5-10 colors you can copy as hex, RGB, or HSL.
+    `;
+
+    const result = await createReview({
+      criteria: 'Onboarding copy that gets a first-time user to their first palette',
+      artifact: onboardingCopy,
+      rubric: [
+        { name: 'clarity', description: 'Next action is unambiguous', weight: 2 },
+        { name: 'tone', description: 'Warm and conversational, not salesy' },
+        { name: 'specificity', description: 'Concrete about what the user gets' },
+      ],
+      passThreshold: 6,
+    });
+
+    // Breakdown shows near-misses even when the aggregate passes
+    expect(result.breakdown).toHaveLength(3);
+    expect(result.score).toBeGreaterThanOrEqual(6);
+    expect(result.pass).toBe(true);
+  });
+});
+
+// =============================================================================
+// Batch Review Examples
+// =============================================================================
+
+describe('Batch review', () => {
+  it('reviews a suite of strings in parallel under a budget', async () => {
+    const emptyStates = [
+      'Your palette library is empty. Upload an image to get started.',
+      'No exports yet. Export a palette as CSS, PNG, or JSON.',
+      'Nothing here.',
+    ];
+
+    const batch = await reviewBatch(
+      emptyStates.map(text => ({
+        criteria: 'Empty state explains what to do next',
+        artifact: text,
+      })),
+      { concurrency: 3, budgetUsd: 0.5 }
+    );
+
+    console.log(`Batch cost: $${batch.costUsd.toFixed(4)} (${batch.usage.inputTokens} in / ${batch.usage.outputTokens} out)`);
+    expect(batch.budgetExceeded).toBe(false);
+    expect(batch.results[0].pass).toBe(true);
+    expect(batch.results[2].pass).toBe(false);
+  });
+});
+
+describe('Batch review accounting', () => {
+  // 1M input tokens on the fast model costs $0.80 per review
+  const pricedJudge = () =>
+    scriptedProvider(() => '{"pass": true}', { inputTokens: 1_000_000, outputTokens: 0 });
+
+  it('totals tokens and cost across the batch', async () => {
+    const provider = pricedJudge();
+    const batch = await reviewBatch(
+      [1, 2].map(n => ({ criteria: 'Friendly', artifact: `Hello ${n}`, provider }))
+    );
+
+    expect(batch.usage).toEqual({ inputTokens: 2_000_000, outputTokens: 0 });
+    expect(batch.costUsd).toBeCloseTo(1.6);
+  });
+
+  it('stops starting reviews once the budget is spent', async () => {
+    const provider = pricedJudge();
+    const batch = await reviewBatch(
+      [1, 2, 3, 4].map(n => ({ criteria: 'Friendly', artifact: `Hello ${n}`, provider })),
+      { concurrency: 1, budgetUsd: 1 }
+    );
+
+    expect(provider.calls).toHaveLength(2);
+    expect(batch.skipped).toBe(2);
+    expect(batch.budgetExceeded).toBe(true);
+    expect(batch.results[3]).toMatchObject({ outcome: 'error', feedback: expect.stringContaining('budget') });
+  });
+
+  it('reports a budget overrun by the last review', async () => {
+    const provider = pricedJudge();
+    const batch = await reviewBatch(
+      [{ criteria: 'Friendly', artifact: 'Hello', provider }],
+      { budgetUsd: 0.5 }
+    );
+
+    expect(batch.skipped).toBe(0);
+    expect(batch.costUsd).toBeCloseTo(0.8);
+    expect(batch.budgetExceeded).toBe(true);
+  });
+
+  it('lets reviews already in flight overshoot the budget', async () => {
+    const provider = pricedJudge();
+    const batch = await reviewBatch(
+      [1, 2, 3, 4].map(n => ({ criteria: 'Friendly', artifact: `Hello ${n}`, provider })),
+      { concurrency: 4, budgetUsd: 1 }
+    );
+
+    expect(provider.calls).toHaveLength(4);
+    expect(batch.skipped).toBe(0);
+    expect(batch.costUsd).toBeCloseTo(3.2);
+    expect(batch.budgetExceeded).toBe(true);
+  });
+
+  it('judges items without a provider with the default one', async () => {
+    const provider = pricedJudge();
+    setDefaultJudgeProvider(provider);
+    try {
+      const batch = await reviewBatch([{ criteria: 'Friendly', artifact: 'Hello' }]);
+
+      expect(batch.results[0].pass).toBe(true);
+      expect(provider.calls).toHaveLength(1);
+    } finally {
+      setDefaultJudgeProvider(undefined);
+    }
+  });
+
+  it('retries overloaded responses with backoff', async () => {
+    let attempts = 0;
+    const flaky: JudgeProvider = {
+      name: 'flaky',
+      async complete(request) {
+        if (attempts++ < 2) {
+          throw Object.assign(new Error('Overloaded'), { status: 529 });
+        }
+        return { text: '{"pass": true}', model: request.model };
+      },
+    };
+
+    const batch = await reviewBatch(
+      [{ criteria: 'Friendly', artifact: 'Hello', provider: flaky }],
+      { retryDelayMs: 1 }
+    );
+
+    expect(attempts).toBe(3);
+    expect(batch.results[0].pass).toBe(true);
+  });
+});
+
+// =============================================================================
+// Multi-Artifact and Comparative Examples
+// =============================================================================
+
+describe('Multi-artifact review', () => {
+  it('checks a new error message matches the tone of existing ones', async () => {
+    const result = await createReview({
+      criteria: 'The NEW message matches the tone and structure of the EXISTING messages',
+      artifacts: [
+        { label: 'EXISTING 1', content: "Oops! That file is too big. Try one under 5MB?" },
+        { label: 'EXISTING 2', content: "Hmm, we can't read that format. PNG, JPG, or WebP work best." },
+        { label: 'NEW', content: "Oops! We lost the connection. Check your network and try again?" },
+      ],
+    });
+
+    expect(result.pass).toBe(true);
+  });
+
+  it('prefers the clearer of two versions', async () => {
+    const result = await compareReview(
+      { label: 'current', content: 'Error 413: Payload exceeds maximum permitted size.' },
+      { label: 'proposed', content: "That image is over 5MB. Try a smaller one?" },
+      'Clear to a non-technical designer; says how to fix the problem',
+      { counterbalance: true }
+    );
+
+    expect(result.preference).toBe('b');
+    console.log('Reasons:', result.reasons);
+  });
+
+  it('maps counterbalanced judgments back to the original order', async () => {
+    // First call sees (a, b) and picks A; second sees (b, a) and picks B - both mean "a"
+    const provider = scriptedProvider([
+      '{"preference": "A", "reasons": ["Shorter"]}',
+      '{"preference": "B", "reasons": ["More direct"]}',
+    ]);
+
+    const result = await compareReview('Short.', 'A much longer version.', 'Concise', {
+      provider,
+      counterbalance: true,
+    });
+
+    expect(result).toMatchObject({ preference: 'a', reasons: ['Shorter', 'More direct'] });
+    expect(provider.calls[1].content[1]).toMatchObject({ text: expect.stringContaining('A much longer version.') });
+  });
+
+  it('reports a tie when the two orders disagree', async () => {
+    const provider = scriptedProvider([
+      '{"preference": "A", "reasons": ["Position bias"]}',
+      '{"preference": "A", "reasons": ["Position bias"]}',
+    ]);
+
+    const result = await compareReview('One', 'Two', 'Concise', { provider, counterbalance: true });
+
+    expect(result.preference).toBe('tie');
+  });
+});
@@ -16,14 +16,47 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  isFilePath,
+  loadArtifact,
+  loadArtifactFile,
+  type ArtifactType,
+} from './artifact-loader.js';
+import {
+  anthropicProvider,
+  estimateCostUsd,
+  resolveJudgeProvider,
+  type JudgeContentBlock,
+  type JudgeProvider,
+  type JudgeSchema,
+  type JudgeUsage,
+} from './judge-provider.js';
+import { runConsensus, type ConsensusInfo, type ConsensusOptions } from './judge-consensus.js';
+import {
+  asRecord,
+  parseVerdict,
+  requestJudgment,
+  VERDICT_SCHEMA,
+  type JudgeOutcome,
+} from './judge-output.js';
+import {
+  resolveModel,
+  runWithEscalation,
+  type EscalationInfo,
+  type ModelSelection,
+  type ModelTierName,
+} from './model-registry.js';
+import { contentHash, withJudgmentCache, type CacheInfo, type JudgmentKey } from './judgment-cache.js';
+import { recordJournalEntry } from './run-journal.js';
+
+// Pricing lives with the providers so visual-testing can share it
+export { MODEL_PRICING, estimateCostUsd } from './judge-provider.js';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export interface ReviewConfig {
+export interface ReviewConfig extends ConsensusOptions, ModelSelection {
   /**
    * Observable behavioral outcome to evaluate.
    * Be specific: "Warm, conversational tone for design professionals"
@@ -32,80 +65,362 @@ export interface ReviewConfig {
   criteria: string;
 
   /**
-   * Content to evaluate: text string or path to image file.
-   * Image paths should end in .png, .jpg, .jpeg, .gif, or .webp
+   * Content to evaluate: text string or path to a file.
+   * Files are sniffed by content: images, PDFs, SVG, HTML, Markdown and
+   * other text are supported (see artifact-loader)
+   */
+  artifact?: string;
+
+  /**
+   * Override detection when a string is ambiguous, e.g. 'text' for copy
+   * that happens to match a file name. Default: 'auto'
+   */
+  artifactType?: ArtifactType;
+
+  /**
+   * Several labelled artifacts judged together, e.g. a new error message
+   * alongside existing ones it should match. Use instead of `artifact`.
    */
-  artifact: string;
+  artifacts?: LabeledArtifact[];
 
   /**
-   * Intelligence level for evaluation.
+   * Model registry tier for evaluation.
    * - 'fast': Quick evaluation, good for simple criteria
    * - 'smart': Deeper analysis, better for nuanced judgment
-   * Default: 'fast'
+   * Default: 'fast'. Pass `model` instead to pin an exact model ID
    */
-  intelligence?: 'fast' | 'smart';
+  intelligence?: ModelTierName;
+
+  /**
+   * Optional weighted rubric. When present, each criterion is scored 0-10
+   * instead of a single pass/fail, and `pass` is derived from the weighted
+   * aggregate. `criteria` still describes the overall goal.
+   */
+  rubric?: RubricCriterion[];
+
+  /**
+   * Minimum weighted aggregate (0-10) required to pass in rubric mode.
+   * Default: 7
+   */
+  passThreshold?: number;
+
+  /**
+   * Model backend for this review (see judge-provider).
+   * Default: setDefaultJudgeProvider(), RALPH_JUDGE_PROVIDER, then Anthropic
+   */
+  provider?: JudgeProvider;
+
+  /** Name shown in the run journal and report (default: the criteria) */
+  name?: string;
+
+  /**
+   * Reuse the verdict for unchanged content when a judgment cache is
+   * enabled (see judgment-cache). Default: true
+   */
+  cache?: boolean;
 }
 
-export interface ReviewResult {
+export type LabeledArtifact =
+  | { label: string; content: string }
+  | { label: string; imagePath: string }
+  | { label: string; filePath: string; artifactType?: Exclude<ArtifactType, 'text'> };
+
+export interface CompareOptions {
+  /** Model registry tier for the comparison (default: 'smart') */
+  intelligence?: ModelTierName;
+
+  /** Explicit model ID, instead of a tier */
+  model?: string;
+
+  /** Model backend for this comparison */
+  provider?: JudgeProvider;
+
+  /**
+   * Judge both orders (A/B and B/A) to cancel out position bias.
+   * Disagreement between the two orders is reported as a tie. Default: false
+   */
+  counterbalance?: boolean;
+}
+
+export interface CompareResult {
+  /** Which artifact better meets the criteria */
+  preference: 'a' | 'b' | 'tie';
+
+  /** Reasons for the preference, most important first */
+  reasons: string[];
+
+  /** Present when the comparison itself failed; preference is then 'tie' */
+  error?: string;
+
+  /** Model that produced the judgment */
+  model?: string;
+
+  /** Tokens consumed across all calls */
+  usage?: JudgeUsage;
+
+  /** Estimated cost in USD */
+  costUsd?: number;
+}
+
+export interface RubricCriterion {
+  /** Short identifier reported back in the breakdown, e.g. 'clarity' */
+  name: string;
+
+  /** What a high score looks like for this criterion */
+  description: string;
+
+  /** Relative weight in the aggregate (default: 1) */
+  weight?: number;
+}
+
+export interface RubricScore {
+  /** Criterion name from the rubric */
+  name: string;
+
+  /** Score from 0 (not met at all) to 10 (fully met) */
+  score: number;
+
+  /** Normalised weight used in the aggregate */
+  weight: number;
+
+  /** Why the judge gave this score */
+  rationale: string;
+}
+
+export interface ReviewResult extends ConsensusInfo, EscalationInfo, CacheInfo {
   /** Whether the artifact passes the criteria */
   pass: boolean;
 
+  /**
+   * 'pass' or 'fail' for a genuine judgment; 'error' when the review itself
+   * failed (e.g. unreadable judge output), in which case pass is false
+   */
+  outcome: JudgeOutcome;
+
   /** Feedback explaining why it failed (only present when pass=false) */
   feedback?: string;
+
+  /** Weighted aggregate score 0-10 (rubric mode only) */
+  score?: number;
+
+  /** Per-criterion scores (rubric mode only) */
+  breakdown?: RubricScore[];
+
+  /** Model that produced the judgment */
+  model?: string;
+
+  /** Tokens consumed, including repair attempts and all samples */
+  usage?: JudgeUsage;
+
+  /** Estimated cost in USD from usage and MODEL_PRICING */
+  costUsd?: number;
+}
+
+export interface BatchReviewOptions {
+  /** Maximum reviews in flight at once (default: 4) */
+  concurrency?: number;
+
+  /**
+   * Stop starting new reviews once estimated spend reaches this many USD.
+   * Reviews already in flight still complete, so spend can overshoot the
+   * cap by up to `concurrency` reviews. Default: no cap
+   */
+  budgetUsd?: number;
+
+  /**
+   * Retries for rate-limit (429) and overload (529) errors (default: 3).
+   * These replace the Anthropic SDK's own retries for the batch
+   */
+  retries?: number;
+
+  /** Initial backoff in ms, doubled on each retry (default: 1000) */
+  retryDelayMs?: number;
+}
+
+export interface BatchReviewResult {
+  /** One result per item, in input order. Skipped items have outcome 'error' */
+  results: ReviewResult[];
+
+  /** Token totals across the whole batch */
+  usage: JudgeUsage;
+
+  /** Estimated total cost in USD */
+  costUsd: number;
+
+  /** Number of items skipped because the budget was exhausted */
+  skipped: number;
+
+  /** Whether estimated spend reached the budget cap */
+  budgetExceeded: boolean;
 }
 
 // =============================================================================
 // Implementation
 // =============================================================================
 
-const client = new Anthropic();
+const anthropic = anthropicProvider(new Anthropic());
+
+/** Fallback for reviewBatch, which retries 429/529 itself instead of the SDK */
+const batchAnthropic = anthropicProvider(new Anthropic({ maxRetries: 0 }));
+
+/** Bump when the review or rubric prompts change, so cached verdicts are judged again */
+const REVIEW_PROMPT_VERSION = 1;
+
+interface RubricJudgment {
+  scores: Array<{ name: string; score: number; rationale: string }>;
+}
+
+const RUBRIC_SCHEMA: JudgeSchema = {
+  name: 'submit_scores',
+  description: 'Submit a 0-10 score and rationale for every rubric criterion',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      scores: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            score: { type: 'number', minimum: 0, maximum: 10 },
+            rationale: { type: 'string' },
+          },
+          required: ['name', 'score', 'rationale'],
+        },
+      },
+    },
+    required: ['scores'],
+  },
+};
 
 /**
- * Detect if artifact is an image path
+ * Validate rubric scores returned by the judge
  */
-function isImagePath(artifact: string): boolean {
-  const imageExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
-  const ext = path.extname(artifact).toLowerCase();
-  return imageExtensions.includes(ext) && fs.existsSync(artifact);
+function parseRubricJudgment(value: unknown): RubricJudgment {
+  const { scores } = asRecord(value);
+  if (!Array.isArray(scores)) {
+    throw new Error('"scores" must be an array');
+  }
+  return {
+    scores: scores.map(entry => {
+      const { name, score, rationale } = asRecord(entry);
+      if (typeof name !== 'string' || typeof score !== 'number') {
+        throw new Error('each score needs a string "name" and numeric "score"');
+      }
+      return { name, score, rationale: typeof rationale === 'string' ? rationale : '' };
+    }),
+  };
 }
 
 /**
- * Read image file and convert to base64
+ * Build the user message content, attaching the artifact as text, image or document
  */
-function readImageAsBase64(imagePath: string): { data: string; mediaType: string } {
-  const buffer = fs.readFileSync(imagePath);
-  const data = buffer.toString('base64');
+function buildContent(
+  userPrompt: string,
+  artifact: string,
+  artifactType?: ArtifactType
+): JudgeContentBlock[] {
+  const [first, ...rest] = loadArtifact(artifact, artifactType);
 
-  const ext = path.extname(imagePath).toLowerCase();
-  const mediaTypes: Record<string, string> = {
-    '.png': 'image/png',
-    '.jpg': 'image/jpeg',
-    '.jpeg': 'image/jpeg',
-    '.gif': 'image/gif',
-    '.webp': 'image/webp',
-  };
+  // Keep text artifacts in the same block as the prompt, as before
+  if (first.type === 'text' && rest.length === 0) {
+    return [{ type: 'text', text: `${userPrompt}\n\n${first.text}` }];
+  }
 
-  return {
-    data,
-    mediaType: mediaTypes[ext] || 'image/png',
-  };
+  return [{ type: 'text', text: userPrompt }, first, ...rest];
+}
+
+/**
+ * Build content for several labelled artifacts, each introduced by its label
+ */
+function buildLabeledContent(userPrompt: string, artifacts: LabeledArtifact[]): JudgeContentBlock[] {
+  const content: JudgeContentBlock[] = [{
+    type: 'text',
+    text: `${userPrompt}\n\nThe content is ${artifacts.length} labelled artifacts; evaluate them together.`,
+  }];
+
+  for (const artifact of artifacts) {
+    if ('content' in artifact) {
+      content.push({ type: 'text', text: `### ${artifact.label}\n\n${artifact.content}` });
+    } else {
+      const file = 'imagePath' in artifact
+        ? loadArtifactFile(artifact.imagePath)
+        : loadArtifactFile(artifact.filePath, artifact.artifactType);
+      content.push({ type: 'text', text: `### ${artifact.label}` }, ...file);
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Content for a review config: labelled artifacts or the single artifact
+ */
+function buildReviewContent(userPrompt: string, config: ReviewConfig): JudgeContentBlock[] {
+  if (config.artifacts && config.artifacts.length > 0) {
+    return buildLabeledContent(userPrompt, config.artifacts);
+  }
+  if (config.artifact === undefined) {
+    throw new Error('createReview requires either artifact or artifacts');
+  }
+  return buildContent(userPrompt, config.artifact, config.artifactType);
 }
 
 /**
- * Get model based on intelligence level
+ * Treat a bare string as text or a file path, like ReviewConfig.artifact
  */
-function getModel(intelligence: 'fast' | 'smart'): string {
-  return intelligence === 'smart'
-    ? 'claude-sonnet-4-20250514'  // More capable for nuanced judgment
-    : 'claude-haiku-4-20250514';  // Fast for simple criteria
+function toLabeledArtifact(artifact: string | LabeledArtifact, label: string): LabeledArtifact {
+  if (typeof artifact !== 'string') {
+    return artifact;
+  }
+  return isFilePath(artifact) ? { label, filePath: artifact } : { label, content: artifact };
 }
 
 /**
  * Create a review evaluating an artifact against criteria.
- * Returns binary pass/fail with feedback on failure.
+ * Returns binary pass/fail with feedback on failure, or a weighted
+ * score breakdown when a rubric is supplied.
  */
 export async function createReview(config: ReviewConfig): Promise<ReviewResult> {
-  const { criteria, artifact, intelligence = 'fast' } = config;
+  const result = await withJudgmentCache(() => reviewCacheKey(config), config.cache, () =>
+    runWithEscalation(config, 'fast', selection =>
+      runConsensus(config, () => reviewOnce({ ...config, ...selection }))
+    )
+  );
+  recordJournalEntry({
+    kind: 'review',
+    name: config.name ?? config.criteria,
+    criteria: config.criteria,
+    artifact: config.artifact ?? config.artifacts?.map(a => a.label).join(', '),
+    ...result,
+  });
+  return result;
+}
+
+/**
+ * Judgment cache key: the loaded artifact content plus every setting that shapes the verdict
+ */
+function reviewCacheKey(config: ReviewConfig): JudgmentKey {
+  const { criteria, rubric, passThreshold, samples, quorum, escalate } = config;
+  return {
+    kind: 'review',
+    criteria,
+    promptVersion: REVIEW_PROMPT_VERSION,
+    model: resolveModel(config, 'fast', 0).model,
+    settings: { rubric, passThreshold, samples, quorum, escalate },
+    artifactHash: contentHash(JSON.stringify(buildReviewContent('', config))),
+  };
+}
+
+/**
+ * Run a single judgment for createReview
+ */
+async function reviewOnce(config: ReviewConfig): Promise<ReviewResult> {
+  if (config.rubric && config.rubric.length > 0) {
+    return createRubricReview(config, config.rubric);
+  }
+
+  const { criteria } = config;
 
   const systemPrompt = `You are a quality reviewer evaluating content against specific criteria.
 
@@ -125,58 +440,365 @@ Rules:
 
 Evaluate this content and return JSON:`;
 
-  let messages: Anthropic.MessageParam[];
-
-  if (isImagePath(artifact)) {
-    const { data, mediaType } = readImageAsBase64(artifact);
-    messages = [{
-      role: 'user',
-      content: [
-        { type: 'text', text: userPrompt },
-        {
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: mediaType as 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp',
-            data
-          }
-        },
-      ],
-    }];
-  } else {
-    messages = [{
-      role: 'user',
-      content: `${userPrompt}\n\n${artifact}`,
-    }];
+  const { model, maxTokens, temperature } = resolveModel(config, 'fast', 256);
+  const judgment = await requestJudgment(
+    resolveJudgeProvider(config.provider, () => anthropic),
+    {
+      model,
+      maxTokens,
+      temperature,
+      system: systemPrompt,
+      content: buildReviewContent(userPrompt, config),
+    },
+    VERDICT_SCHEMA,
+    parseVerdict
+  );
+
+  const spend = {
+    model,
+    usage: judgment.usage,
+    costUsd: estimateCostUsd(model, judgment.usage),
+  };
+
+  if (!judgment.ok) {
+    // Unreadable output is an infrastructure error, not a criteria failure
+    return {
+      pass: false,
+      outcome: 'error',
+      feedback: `Failed to parse review response: ${judgment.error}`,
+      ...spend,
+    };
   }
 
-  const response = await client.messages.create({
-    model: getModel(intelligence),
-    max_tokens: 256,
-    system: systemPrompt,
-    messages,
-  });
+  const { pass, feedback } = judgment.value;
+  return {
+    pass,
+    outcome: pass ? 'pass' : 'fail',
+    feedback: pass ? undefined : feedback,
+    ...spend,
+  };
+}
+
+/**
+ * Score an artifact against each rubric criterion and aggregate.
+ * The judge only scores; weighting and the pass decision happen here
+ * so they stay deterministic.
+ */
+async function createRubricReview(
+  config: ReviewConfig,
+  rubric: RubricCriterion[]
+): Promise<ReviewResult> {
+  const { criteria, passThreshold = 7 } = config;
+
+  const systemPrompt = `You are a quality reviewer scoring content against a rubric.
+
+Your task:
+1. Score the provided content against each rubric criterion from 0 to 10
+   (0 = not met at all, 5 = partially met, 10 = fully met)
+2. Return a JSON response with exactly this format:
+   {"scores": [{"name": "criterion name", "score": 0-10, "rationale": "why"}]}
+
+Rules:
+- Score every criterion, using the exact names given
+- Be strict but fair; reserve 9-10 for clearly excellent work
+- Rationales should be actionable and specific
+- Return ONLY the JSON, no other text`;
+
+  const rubricText = rubric
+    .map(c => `- ${c.name}: ${c.description}`)
+    .join('\n');
+
+  const userPrompt = `Overall goal: ${criteria}
+
+Rubric:
+${rubricText}
 
-  // Extract text from response
-  const text = response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-    .map(block => block.text)
-    .join('');
+Score this content and return JSON:`;
 
-  // Parse JSON response
-  try {
-    const result = JSON.parse(text.trim());
+  const { model, maxTokens, temperature } = resolveModel(config, 'fast', 1024);
+  const judgment = await requestJudgment(
+    resolveJudgeProvider(config.provider, () => anthropic),
+    {
+      model,
+      maxTokens,
+      temperature,
+      system: systemPrompt,
+      content: buildReviewContent(userPrompt, config),
+    },
+    RUBRIC_SCHEMA,
+    parseRubricJudgment
+  );
+
+  const spend = {
+    model,
+    usage: judgment.usage,
+    costUsd: estimateCostUsd(model, judgment.usage),
+  };
+
+  if (!judgment.ok) {
     return {
-      pass: Boolean(result.pass),
-      feedback: result.pass ? undefined : result.feedback,
+      pass: false,
+      outcome: 'error',
+      feedback: `Failed to parse rubric review response: ${judgment.error}`,
+      ...spend,
     };
-  } catch {
-    // If parsing fails, treat as failure
+  }
+
+  const { scores } = judgment.value;
+
+  const totalWeight = rubric.reduce((sum, c) => sum + (c.weight ?? 1), 0) || 1;
+
+  const breakdown: RubricScore[] = rubric.map(c => {
+    const scored = scores.find(s => s.name === c.name);
+    const score = Math.min(10, Math.max(0, scored?.score ?? 0));
     return {
-      pass: false,
-      feedback: `Failed to parse review response: ${text}`,
+      name: c.name,
+      score,
+      weight: (c.weight ?? 1) / totalWeight,
+      rationale: scored?.rationale || 'Not scored by reviewer',
     };
+  });
+
+  const score = breakdown.reduce((sum, b) => sum + b.score * b.weight, 0);
+  const pass = score >= passThreshold;
+
+  return {
+    pass,
+    outcome: pass ? 'pass' : 'fail',
+    feedback: pass
+      ? undefined
+      : `Score ${score.toFixed(1)}/10 below threshold ${passThreshold}. ` +
+        breakdown
+          .filter(b => b.score < passThreshold)
+          .map(b => `${b.name} (${b.score}): ${b.rationale}`)
+          .join('; '),
+    score,
+    breakdown,
+    ...spend,
+  };
+}
+
+// =============================================================================
+// Comparative Review
+// =============================================================================
+
+interface CompareJudgment {
+  preference: 'A' | 'B' | 'tie';
+  reasons: string[];
+}
+
+const COMPARE_SCHEMA: JudgeSchema = {
+  name: 'submit_preference',
+  description: 'Submit which version better meets the criteria, with reasons',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      preference: { type: 'string', enum: ['A', 'B', 'tie'] },
+      reasons: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['preference', 'reasons'],
+  },
+};
+
+/**
+ * Validate a comparison judgment
+ */
+function parseCompareJudgment(value: unknown): CompareJudgment {
+  const { preference, reasons } = asRecord(value);
+  if (preference !== 'A' && preference !== 'B' && preference !== 'tie') {
+    throw new Error('"preference" must be "A", "B" or "tie"');
+  }
+  if (!Array.isArray(reasons) || reasons.some(r => typeof r !== 'string')) {
+    throw new Error('"reasons" must be an array of strings');
   }
+  return { preference, reasons };
+}
+
+/**
+ * Judge two artifacts head to head and return which better meets the criteria.
+ * Each artifact may be text, an image path, or a labelled artifact.
+ */
+export async function compareReview(
+  a: string | LabeledArtifact,
+  b: string | LabeledArtifact,
+  criteria: string,
+  options: CompareOptions = {}
+): Promise<CompareResult> {
+  const { counterbalance = false } = options;
+  const { model, maxTokens, temperature } = resolveModel(options, 'smart', 512);
+  const provider = resolveJudgeProvider(options.provider, () => anthropic);
+
+  const systemPrompt = `You are a quality reviewer comparing two versions of content against specific criteria.
+
+Your task:
+1. Compare version A with version B against the criteria
+2. Return a JSON response with exactly this format:
+   {"preference": "A" | "B" | "tie", "reasons": ["most important reason", "..."]}
+
+Rules:
+- Prefer the version that better meets the criteria, not the one you like more
+- Only answer "tie" if neither version is meaningfully better
+- Reasons should be specific differences between the versions
+- Return ONLY the JSON, no other text`;
+
+  const userPrompt = `Criteria: ${criteria}
+
+Compare these versions and return JSON:`;
+
+  const judgeOrder = async (first: LabeledArtifact, second: LabeledArtifact) =>
+    requestJudgment(
+      provider,
+      {
+        model,
+        maxTokens,
+        temperature,
+        system: systemPrompt,
+        content: buildLabeledContent(userPrompt, [
+          { ...first, label: `Version A (${first.label})` },
+          { ...second, label: `Version B (${second.label})` },
+        ]),
+      },
+      COMPARE_SCHEMA,
+      parseCompareJudgment
+    );
+
+  const artifactA = toLabeledArtifact(a, 'first');
+  const artifactB = toLabeledArtifact(b, 'second');
+
+  const judgments = [await judgeOrder(artifactA, artifactB)];
+  if (counterbalance) {
+    judgments.push(await judgeOrder(artifactB, artifactA));
+  }
+
+  const usage = {
+    inputTokens: judgments.reduce((sum, j) => sum + j.usage.inputTokens, 0),
+    outputTokens: judgments.reduce((sum, j) => sum + j.usage.outputTokens, 0),
+  };
+  const spend = { model, usage, costUsd: estimateCostUsd(model, usage) };
+
+  const values: CompareJudgment[] = [];
+  for (const judgment of judgments) {
+    if (!judgment.ok) {
+      return {
+        preference: 'tie',
+        reasons: [],
+        error: `Failed to parse comparison response: ${judgment.error}`,
+        ...spend,
+      };
+    }
+    values.push(judgment.value);
+  }
+
+  // Map each judgment back to the caller's a/b, undoing the swapped order
+  const preferences = values.map(({ preference }, i) => {
+    if (preference === 'tie') return 'tie';
+    const pickedFirst = preference === 'A';
+    return pickedFirst === (i === 0) ? 'a' : 'b';
+  });
+
+  return {
+    preference: preferences.every(p => p === preferences[0]) ? preferences[0] : 'tie',
+    reasons: values.flatMap(v => v.reasons),
+    ...spend,
+  };
+}
+
+// =============================================================================
+// Batch Reviews
+// =============================================================================
+
+/**
+ * Whether an error is a rate-limit or overload response worth retrying
+ */
+function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: number } | undefined)?.status;
+  return status === 429 || status === 529;
+}
+
+/**
+ * Run a review, retrying rate-limit and overload errors with exponential backoff.
+ * Falls back to the Anthropic client without SDK retries, so attempts don't multiply.
+ */
+async function reviewWithRetry(
+  config: ReviewConfig,
+  retries: number,
+  retryDelayMs: number
+): Promise<ReviewResult> {
+  const provider = resolveJudgeProvider(config.provider, () => batchAnthropic);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await createReview({ ...config, provider });
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= retries) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** attempt));
+    }
+  }
+}
+
+/**
+ * Run many reviews in parallel with a bounded pool, retrying 429/529
+ * responses and stopping early once the budget is spent. Errors on one
+ * item are reported in its result rather than failing the batch.
+ */
+export async function reviewBatch(
+  items: ReviewConfig[],
+  options: BatchReviewOptions = {}
+): Promise<BatchReviewResult> {
+  const {
+    concurrency = 4,
+    budgetUsd = Infinity,
+    retries = 3,
+    retryDelayMs = 1000,
+  } = options;
+
+  const results: ReviewResult[] = new Array(items.length);
+  const usage: JudgeUsage = { inputTokens: 0, outputTokens: 0 };
+  let costUsd = 0;
+  let skipped = 0;
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+
+      if (costUsd >= budgetUsd) {
+        skipped++;
+        results[index] = {
+          pass: false,
+          outcome: 'error',
+          feedback: `Skipped: budget of $${budgetUsd.toFixed(2)} exhausted`,
+        };
+        continue;
+      }
+
+      try {
+        const result = await reviewWithRetry(items[index], retries, retryDelayMs);
+        usage.inputTokens += result.usage?.inputTokens ?? 0;
+        usage.outputTokens += result.usage?.outputTokens ?? 0;
+        costUsd += result.costUsd ?? 0;
+        results[index] = result;
+      } catch (error) {
+        results[index] = {
+          pass: false,
+          outcome: 'error',
+          feedback: `Review failed: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    }
+  };
+
+  const poolSize = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: poolSize }, worker));
+
+  return {
+    results,
+    usage,
+    costUsd,
+    skipped,
+    budgetExceeded: costUsd >= budgetUsd,
+  };
 }
 
 // =============================================================================
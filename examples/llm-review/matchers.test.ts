@@ -0,0 +1,43 @@
+/**
+ * Judge Matchers - Test Examples
+ *
+ * Shows how failing judgments surface their feedback in the assertion
+ * message, using a scripted judge so no API key is needed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scriptedProvider } from './judge-provider';
+import './matchers';
+
+// =============================================================================
+// Text
+// =============================================================================
+
+describe('toSatisfyCriteria', () => {
+  it('passes when the judge approves', async () => {
+    await expect('Hey there, welcome back!').toSatisfyCriteria('Friendly greeting', {
+      provider: scriptedProvider(['{"pass": true}']),
+    });
+  });
+
+  it('puts the judge feedback in the failure message', async () => {
+    await expect(
+      expect('Dear Sir or Madam').toSatisfyCriteria('Casual tone', {
+        provider: scriptedProvider(['{"pass": false, "feedback": "Far too formal"}']),
+      })
+    ).rejects.toThrow(/satisfy criteria: Casual tone[\s\S]*Outcome: fail[\s\S]*Feedback: Far too formal/);
+  });
+
+  it('supports .not', async () => {
+    await expect('Buy now!!!').not.toSatisfyCriteria('Calm, understated copy', {
+      provider: scriptedProvider(['{"pass": false, "feedback": "Shouty"}']),
+    });
+  });
+
+  it('fails on a judge error, with or without .not', async () => {
+    const broken = () => ({ provider: scriptedProvider(['not json', 'not json']) });
+
+    await expect(expect('Buy now!!!').toSatisfyCriteria('Calm copy', broken())).rejects.toThrow(/no verdict[\s\S]*Outcome: error/);
+    await expect(expect('Buy now!!!').not.toSatisfyCriteria('Calm copy', broken())).rejects.toThrow(/no verdict[\s\S]*Outcome: error/);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Vitest Matchers for LLM Assertions
+ *
+ * Wraps createReview in an expect() matcher so a failing judgment prints
+ * the judge's feedback instead of a bare `expected false to be true`. The
+ * screenshot matchers (toLookLike, toMatchVisualBaseline) live in
+ * visual-testing/visual-matchers and build on toMatcherResult.
+ *
+ * Usage (import once per test file, or from vitest setupFiles):
+ *   import './matchers';
+ *
+ *   await expect(copy).toSatisfyCriteria('Warm, conversational tone');
+ *
+ * All matchers are async and must be awaited.
+ */
+
+import { expect } from 'vitest';
+import { createReview, type ReviewConfig } from './llm-review.js';
+import type { JudgeOutcome } from './judge-output.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Review settings for toSatisfyCriteria (criteria and artifact come from the call) */
+export type CriteriaMatcherOptions = Omit<ReviewConfig, 'criteria' | 'artifact' | 'artifacts'>;
+
+interface JudgeMatchers<R = unknown> {
+  /** Judge text (or a file path) against natural-language criteria */
+  toSatisfyCriteria(criteria: string, options?: CriteriaMatcherOptions): Promise<R>;
+}
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends JudgeMatchers<T> {}
+}
+
+export interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/** The parts of a review or visual result a matcher reports */
+export interface JudgedResult {
+  pass: boolean;
+  outcome: JudgeOutcome;
+  unstable?: boolean;
+  feedback?: string;
+  screenshotPath?: string;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Shorten received text so failure messages stay readable
+ */
+function preview(value: string, max: number = 120): string {
+  const flat = value.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+}
+
+/**
+ * Build a matcher result whose message carries the judge's explanation.
+ * A judge error fails the assertion with or without .not: no verdict is
+ * not a negative verdict.
+ */
+export function toMatcherResult(
+  result: JudgedResult,
+  expectation: string,
+  isNot: boolean
+): MatcherResult {
+  const error = result.outcome === 'error';
+  return {
+    pass: error ? isNot : result.pass,
+    message: () => {
+      const lines = [error ? `${expectation}, but the judge gave no verdict` : expectation];
+      lines.push(`Outcome: ${result.outcome}${result.unstable ? ' (unstable)' : ''}`);
+      if (result.feedback) {
+        lines.push(`Feedback: ${result.feedback}`);
+      }
+      if (result.screenshotPath) {
+        lines.push(`Screenshot: ${result.screenshotPath}`);
+      }
+      return lines.join('\n');
+    },
+  };
+}
+
+export const judgeMatchers = {
+  async toSatisfyCriteria(
+    this: { isNot: boolean },
+    received: unknown,
+    criteria: string,
+    options: CriteriaMatcherOptions = {}
+  ): Promise<MatcherResult> {
+    if (typeof received !== 'string') {
+      throw new TypeError(`toSatisfyCriteria expects a string, received ${typeof received}`);
+    }
+
+    const result = await createReview({ ...options, criteria, artifact: received });
+    return toMatcherResult(
+      result,
+      `expected "${preview(received)}" ${this.isNot ? 'not ' : ''}to satisfy criteria: ${criteria}`,
+      this.isNot
+    );
+  },
+};
+
+expect.extend(judgeMatchers);
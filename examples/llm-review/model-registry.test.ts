@@ -0,0 +1,165 @@
+/**
+ * Model Registry - Test Examples
+ *
+ * Shows how tiers are configured from a file and the environment, how a
+ * review picks its model, and how a failed fast verdict escalates to a
+ * stronger tier. Uses a scripted judge, so no API key is needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createReview } from './llm-review';
+import { estimateCostUsd, scriptedProvider } from './judge-provider';
+import {
+  getModelRegistry,
+  loadModelRegistry,
+  resetModelRegistry,
+  resolveModel,
+  setModelRegistry,
+  type ModelRegistry,
+} from './model-registry';
+
+const REGISTRY: ModelRegistry = {
+  tiers: {
+    fast: { model: 'small-model', temperature: 0 },
+    smart: { model: 'large-model', maxTokens: 2048, pricing: { input: 10, output: 20 } },
+  },
+  escalation: { fast: 'smart' },
+};
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+describe('Model registry loading', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-registry-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges the config file over the built-in tiers, then applies env overrides', () => {
+    const file = path.join(dir, 'ralph-models.json');
+    fs.writeFileSync(file, JSON.stringify({
+      tiers: { fast: { temperature: 0 }, deep: { model: 'claude-opus-4-20250514', maxTokens: 2048 } },
+      escalation: { fast: 'smart' },
+    }));
+
+    const registry = loadModelRegistry({
+      RALPH_MODELS_FILE: file,
+      RALPH_MODEL_SMART: 'claude-sonnet-pinned',
+      RALPH_MODEL_ESCALATION: 'fast:smart,smart:deep',
+    });
+
+    expect(registry.tiers).toEqual({
+      fast: { model: 'claude-haiku-4-20250514', temperature: 0 },
+      smart: { model: 'claude-sonnet-pinned' },
+      deep: { model: 'claude-opus-4-20250514', maxTokens: 2048 },
+    });
+    expect(registry.escalation).toEqual({ fast: 'smart', smart: 'deep' });
+  });
+
+  it('escalates only when the file or environment asks for it', () => {
+    const file = path.join(dir, 'ralph-models.json');
+    fs.writeFileSync(file, JSON.stringify({ escalation: { fast: 'smart' } }));
+
+    expect(loadModelRegistry({}).escalation).toEqual({});
+    expect(loadModelRegistry({ RALPH_MODELS_FILE: file }).escalation).toEqual({ fast: 'smart' });
+    expect(loadModelRegistry({ RALPH_MODELS_FILE: file, RALPH_MODEL_ESCALATION: 'none' }).escalation).toEqual({});
+  });
+
+  it('loads the registry once until reset', () => {
+    const previous = process.env.RALPH_MODEL_FAST;
+    resetModelRegistry();
+    try {
+      const first = getModelRegistry();
+      process.env.RALPH_MODEL_FAST = 'claude-haiku-pinned';
+      expect(getModelRegistry()).toBe(first);
+
+      resetModelRegistry();
+      expect(getModelRegistry().tiers.fast.model).toBe('claude-haiku-pinned');
+    } finally {
+      if (previous === undefined) delete process.env.RALPH_MODEL_FAST;
+      else process.env.RALPH_MODEL_FAST = previous;
+      resetModelRegistry();
+    }
+  });
+
+  it('names the bad field or tier', () => {
+    const file = path.join(dir, 'ralph-models.json');
+    fs.writeFileSync(file, JSON.stringify({ tiers: { fast: { maxTokens: -1 } } }));
+
+    expect(() => loadModelRegistry({ RALPH_MODELS_FILE: file })).toThrow('tiers.fast.maxTokens must be a positive number');
+    expect(() => loadModelRegistry({ RALPH_MODELS_FILE: path.join(dir, 'missing.json') })).toThrow('not found');
+    expect(() => loadModelRegistry({ RALPH_MODEL_ESCALATION: 'fast:deep' })).toThrow('Escalation fast -> deep names an unknown tier');
+  });
+});
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+describe('Model resolution', () => {
+  it('uses tier settings, falling back to the prompt default', () => {
+    expect(resolveModel({}, 'smart', 512, REGISTRY)).toEqual({ tier: 'smart', model: 'large-model', maxTokens: 2048, temperature: undefined });
+    expect(resolveModel({ intelligence: 'fast' }, 'smart', 512, REGISTRY)).toEqual({ tier: 'fast', model: 'small-model', maxTokens: 512, temperature: 0 });
+  });
+
+  it('accepts an explicit model and rejects unknown tiers', () => {
+    expect(resolveModel({ model: 'pinned-model', intelligence: 'smart' }, 'fast', 256, REGISTRY).model).toBe('pinned-model');
+    expect(() => resolveModel({ intelligence: 'deep' }, 'fast', 256, REGISTRY)).toThrow('Unknown model tier: deep (known: fast, smart)');
+  });
+
+  it('prices models from the registry before MODEL_PRICING', () => {
+    setModelRegistry(REGISTRY);
+    try {
+      expect(estimateCostUsd('large-model', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(10);
+    } finally {
+      setModelRegistry(undefined);
+    }
+  });
+});
+
+// =============================================================================
+// Escalation
+// =============================================================================
+
+describe('Tier escalation', () => {
+  beforeEach(() => setModelRegistry(REGISTRY));
+  afterEach(() => setModelRegistry(undefined));
+
+  it('retries a failed fast verdict on smart and reports the combined spend', async () => {
+    const provider = scriptedProvider(
+      ['{"pass": false, "feedback": "Too terse"}', '{"pass": true}'],
+      { inputTokens: 100_000, outputTokens: 0 }
+    );
+
+    const result = await createReview({ criteria: 'Friendly tone', artifact: 'Hi there!', provider });
+
+    expect(provider.calls.map(c => [c.model, c.maxTokens, c.temperature])).toEqual([
+      ['small-model', 256, 0],
+      ['large-model', 2048, undefined],
+    ]);
+    expect(result).toMatchObject({ pass: true, model: 'large-model', escalatedFrom: 'fast' });
+    expect(result.usage).toEqual({ inputTokens: 200_000, outputTokens: 0 });
+    expect(result.costUsd).toBe(1);
+  });
+
+  it('keeps the fast verdict when escalation is off or the model is explicit', async () => {
+    const provider = scriptedProvider(['{"pass": false, "feedback": "Too terse"}', '{"pass": false, "feedback": "Too terse"}']);
+
+    const off = await createReview({ criteria: 'Friendly tone', artifact: 'Hi', provider, escalate: false });
+    const pinned = await createReview({ criteria: 'Friendly tone', artifact: 'Hi', provider, model: 'small-model' });
+
+    expect(provider.calls).toHaveLength(2);
+    expect(off).toMatchObject({ outcome: 'fail', model: 'small-model' });
+    expect(off.escalatedFrom).toBeUndefined();
+    expect(pinned.model).toBe('small-model');
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Model Registry
+ *
+ * Maps named intelligence tiers ('fast', 'smart', or project-defined ones
+ * like 'deep') to a model ID, response token limit, temperature and
+ * pricing, so projects can switch or pin judge models without touching
+ * llm-review or visual-testing. An optional escalation policy retries a
+ * failed verdict on a stronger tier before reporting it.
+ *
+ * Config file (ralph-models.json, or the path in RALPH_MODELS_FILE):
+ *
+ *   {
+ *     "tiers": {
+ *       "fast": { "model": "claude-haiku-4-20250514", "temperature": 0 },
+ *       "deep": { "model": "claude-opus-4-20250514", "maxTokens": 2048,
+ *                 "pricing": { "input": 15, "output": 75 } }
+ *     },
+ *     "escalation": { "fast": "smart" }
+ *   }
+ *
+ * Tiers in the file are merged over the built-in fast and smart tiers.
+ * Escalation is off unless the file or environment defines it; an
+ * "escalation" map replaces any earlier one ({} turns it off).
+ *
+ * The registry is loaded once per process. Call resetModelRegistry after
+ * changing the file or environment, e.g. between tests.
+ *
+ * Environment (applied on top of the file):
+ *   RALPH_MODELS_FILE       Config file path (default: ./ralph-models.json if present)
+ *   RALPH_MODEL_<TIER>      Model ID for a tier, e.g. RALPH_MODEL_FAST=claude-3-5-haiku-latest
+ *   RALPH_MODEL_ESCALATION  Tier pairs, e.g. fast:smart,smart:deep ('none' disables)
+ */
+
+import * as fs from 'fs';
+import type { JudgeUsage } from './judge-provider.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Built-in tiers plus any tier defined in the registry */
+export type ModelTierName = 'fast' | 'smart' | (string & {});
+
+export interface ModelTier {
+  /** Model ID sent to the provider */
+  model: string;
+
+  /** Response token limit, replacing each prompt's own default */
+  maxTokens?: number;
+
+  /** Sampling temperature (default: the provider's) */
+  temperature?: number;
+
+  /** USD per million tokens, used instead of MODEL_PRICING */
+  pricing?: { input: number; output: number };
+}
+
+export interface ModelRegistry {
+  tiers: Record<string, ModelTier>;
+
+  /** Tier to retry a 'fail' verdict on, e.g. { fast: 'smart' } */
+  escalation?: Record<string, string>;
+}
+
+/** How a judgment picks its model; mixed into review and visual configs */
+export interface ModelSelection {
+  /** Registry tier to judge with ('fast', 'smart', or a custom tier) */
+  intelligence?: ModelTierName;
+
+  /** Explicit model ID; takes precedence over `intelligence` and is never escalated */
+  model?: string;
+
+  /**
+   * Retry a 'fail' verdict on the tier the registry escalates to.
+   * Default: true whenever the registry defines an escalation for the tier
+   */
+  escalate?: boolean;
+}
+
+export interface ResolvedModel {
+  /** Tier the model came from (undefined for an explicit model) */
+  tier?: string;
+
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface EscalationInfo {
+  /** Tier whose 'fail' verdict was retried on a stronger tier */
+  escalatedFrom?: string;
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export const DEFAULT_MODEL_REGISTRY: ModelRegistry = {
+  tiers: {
+    fast: { model: 'claude-haiku-4-20250514' },    // Fast for simple criteria
+    smart: { model: 'claude-sonnet-4-20250514' },  // More capable for nuanced judgment
+  },
+  escalation: {},
+};
+
+const DEFAULT_MODELS_FILE = './ralph-models.json';
+
+let registryOverride: ModelRegistry | undefined;
+let loadedRegistry: ModelRegistry | undefined;
+
+/**
+ * Use a registry instead of the file and environment, e.g. in a vitest
+ * setup file. Pass undefined to restore loading.
+ */
+export function setModelRegistry(registry: ModelRegistry | undefined): void {
+  registryOverride = registry;
+}
+
+/**
+ * Drop the override and the loaded registry, so the next lookup reads
+ * the file and environment again
+ */
+export function resetModelRegistry(): void {
+  registryOverride = undefined;
+  loadedRegistry = undefined;
+}
+
+/**
+ * Check a registry read from a file, naming the first bad field
+ */
+function validateRegistry(value: unknown, source: string): ModelRegistry {
+  const fail = (message: string): never => {
+    throw new Error(`${source}: ${message}`);
+  };
+  const isRecord = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+  if (!isRecord(value)) fail('expected a JSON object');
+  const { tiers = {}, escalation } = value as Record<string, unknown>;
+  if (!isRecord(tiers)) fail('"tiers" must be an object');
+
+  for (const [name, tier] of Object.entries(tiers as Record<string, unknown>)) {
+    if (!isRecord(tier)) fail(`tiers.${name} must be an object`);
+    const { model, maxTokens, temperature, pricing } = tier as Record<string, unknown>;
+    if (model !== undefined && typeof model !== 'string') fail(`tiers.${name}.model must be a string`);
+    if (maxTokens !== undefined && !(typeof maxTokens === 'number' && maxTokens > 0)) {
+      fail(`tiers.${name}.maxTokens must be a positive number`);
+    }
+    if (temperature !== undefined && typeof temperature !== 'number') fail(`tiers.${name}.temperature must be a number`);
+    if (
+      pricing !== undefined &&
+      !(isRecord(pricing) && typeof pricing.input === 'number' && typeof pricing.output === 'number')
+    ) {
+      fail(`tiers.${name}.pricing needs numeric "input" and "output"`);
+    }
+  }
+  if (escalation !== undefined && !(isRecord(escalation) && Object.values(escalation).every(t => typeof t === 'string'))) {
+    fail('"escalation" must map tier names to tier names');
+  }
+  return value as ModelRegistry;
+}
+
+/**
+ * Build the registry from the built-in tiers, the config file and
+ * RALPH_MODEL_* environment variables
+ */
+export function loadModelRegistry(
+  env: Record<string, string | undefined> = process.env
+): ModelRegistry {
+  const tiers: Record<string, Partial<ModelTier>> = { ...DEFAULT_MODEL_REGISTRY.tiers };
+  let escalation: Record<string, string> = { ...DEFAULT_MODEL_REGISTRY.escalation };
+
+  const file = env.RALPH_MODELS_FILE || DEFAULT_MODELS_FILE;
+  if (env.RALPH_MODELS_FILE || fs.existsSync(file)) {
+    if (!fs.existsSync(file)) {
+      throw new Error(`RALPH_MODELS_FILE not found: ${file}`);
+    }
+    const config = validateRegistry(JSON.parse(fs.readFileSync(file, 'utf-8')), file);
+    for (const [name, tier] of Object.entries(config.tiers ?? {})) {
+      tiers[name] = { ...tiers[name], ...tier };
+    }
+    escalation = config.escalation ?? escalation;
+  }
+
+  for (const [key, value] of Object.entries(env)) {
+    const match = /^RALPH_MODEL_([A-Z0-9_]+)$/.exec(key);
+    if (match && match[1] !== 'ESCALATION' && value) {
+      const name = match[1].toLowerCase().replace(/_/g, '-');
+      tiers[name] = { ...tiers[name], model: value };
+    }
+  }
+
+  const pairs = env.RALPH_MODEL_ESCALATION;
+  if (pairs === 'none') {
+    escalation = {};
+  } else if (pairs) {
+    escalation = {};
+    for (const pair of pairs.split(',')) {
+      const [from, to] = pair.split(':').map(part => part.trim());
+      if (!from || !to) {
+        throw new Error(`RALPH_MODEL_ESCALATION expects tier:tier pairs, got ${pair}`);
+      }
+      escalation[from] = to;
+    }
+  }
+
+  for (const [name, tier] of Object.entries(tiers)) {
+    if (!tier.model) {
+      throw new Error(`Model tier ${name} has no model`);
+    }
+  }
+  for (const [from, to] of Object.entries(escalation)) {
+    if (!tiers[from] || !tiers[to]) {
+      throw new Error(`Escalation ${from} -> ${to} names an unknown tier`);
+    }
+  }
+
+  return { tiers: tiers as Record<string, ModelTier>, escalation };
+}
+
+/**
+ * The registry in effect: the override, else loaded once from file and
+ * environment
+ */
+export function getModelRegistry(): ModelRegistry {
+  return registryOverride ?? (loadedRegistry ??= loadModelRegistry());
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Pick the model, token limit and temperature for a judgment.
+ * An explicit model keeps the settings of a tier that uses it, if any.
+ */
+export function resolveModel(
+  selection: ModelSelection,
+  fallbackTier: ModelTierName,
+  maxTokens: number,
+  registry: ModelRegistry = getModelRegistry()
+): ResolvedModel {
+  if (selection.model) {
+    const tier = Object.values(registry.tiers).find(t => t.model === selection.model);
+    return { model: selection.model, maxTokens: tier?.maxTokens ?? maxTokens, temperature: tier?.temperature };
+  }
+
+  const name = selection.intelligence ?? fallbackTier;
+  const tier = registry.tiers[name];
+  if (!tier) {
+    throw new Error(`Unknown model tier: ${name} (known: ${Object.keys(registry.tiers).join(', ')})`);
+  }
+  return { tier: name, model: tier.model, maxTokens: tier.maxTokens ?? maxTokens, temperature: tier.temperature };
+}
+
+/**
+ * Configured price of a model, if any tier using it declares one
+ */
+export function modelPricing(
+  model: string,
+  registry: ModelRegistry = getModelRegistry()
+): { input: number; output: number } | undefined {
+  return Object.values(registry.tiers).find(t => t.model === model && t.pricing)?.pricing;
+}
+
+/**
+ * Run a judgment and, while it fails, rerun it on the tier the registry
+ * escalates to. The last verdict is returned with the usage and cost of
+ * every attempt. Explicit models and `escalate: false` run once.
+ */
+export async function runWithEscalation<
+  T extends { outcome?: string; usage?: JudgeUsage; costUsd?: number }
+>(
+  selection: ModelSelection,
+  fallbackTier: ModelTierName,
+  judge: (selection: ModelSelection) => Promise<T>,
+  registry: ModelRegistry = getModelRegistry()
+): Promise<T & EscalationInfo> {
+  const first = await judge(selection);
+  if (selection.model || selection.escalate === false) {
+    return first;
+  }
+
+  const from = selection.intelligence ?? fallbackTier;
+  const tried = new Set([from]);
+  let tier = from;
+  let result: T & EscalationInfo = first;
+  const usage = { inputTokens: first.usage?.inputTokens ?? 0, outputTokens: first.usage?.outputTokens ?? 0 };
+  let costUsd = first.costUsd ?? 0;
+
+  let next = registry.escalation?.[tier];
+  while (result.outcome === 'fail' && next && !tried.has(next)) {
+    tier = next;
+    tried.add(tier);
+    const retried = await judge({ ...selection, intelligence: tier });
+    usage.inputTokens += retried.usage?.inputTokens ?? 0;
+    usage.outputTokens += retried.usage?.outputTokens ?? 0;
+    costUsd += retried.costUsd ?? 0;
+    result = { ...retried, usage: { ...usage }, costUsd, escalatedFrom: from };
+    next = registry.escalation?.[tier];
+  }
+  return result;
+}
@@ -0,0 +1,112 @@
+/**
+ * JUnit XML and SARIF Export - Test Examples
+ *
+ * Shows how a run journal becomes CI test results and code-scanning findings.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { toJUnitXml, toSarif } from './run-export';
+import type { JournalEntry } from './run-journal';
+
+const entry = (overrides: Partial<JournalEntry>): JournalEntry => ({
+  kind: 'visual',
+  name: 'layout',
+  criteria: 'Layout/Hierarchy: Clear hierarchy',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  pass: true,
+  outcome: 'pass',
+  ...overrides,
+});
+
+const RUN: JournalEntry[] = [
+  entry({ kind: 'review', name: 'tone', criteria: 'Warm tone', artifact: 'Dear Sir', model: 'claude-haiku-4-20250514' }),
+  entry({ name: 'layout', screenshotPath: 'tmp/visual-testing/layout.png' }),
+  entry({
+    name: 'accessibility',
+    criteria: 'Accessibility: WCAG AA',
+    pass: false,
+    outcome: 'fail',
+    feedback: 'Submit button has <2:1> contrast & no label',
+    url: 'http://localhost:3000/signup',
+    screenshotPath: 'tmp/visual-testing/accessibility.png',
+  }),
+  entry({ name: 'home@desktop', pass: false, outcome: 'error', feedback: 'Screenshot not found' }),
+];
+
+describe('JUnit export', () => {
+  it('writes one testcase per assertion, grouped by library', () => {
+    const xml = toJUnitXml(RUN);
+
+    expect(xml).toContain('<testsuites name="ralph" tests="4" failures="1" errors="1">');
+    expect(xml).toContain('<testsuite name="llm-review" tests="1" failures="0" errors="0"');
+    expect(xml).toContain('<testsuite name="visual-testing" tests="3" failures="1" errors="1"');
+    expect(xml.match(/<testcase /g)).toHaveLength(4);
+  });
+
+  it('uses feedback as the failure message and attaches screenshots', () => {
+    const xml = toJUnitXml(RUN);
+
+    expect(xml).toContain(
+      '<failure message="Submit button has &lt;2:1&gt; contrast &amp; no label" type="visual">'
+    );
+    expect(xml).toContain('<error message="Screenshot not found" type="visual">');
+    expect(xml).toContain(`[[ATTACHMENT|${path.resolve('tmp/visual-testing/accessibility.png')}]]`);
+    expect(xml).toContain('<property name="url" value="http://localhost:3000/signup"/>');
+  });
+
+  it('reports an unstable split vote as an error, not a pass or failure', () => {
+    const xml = toJUnitXml([
+      entry({ pass: false, outcome: 'error', unstable: true, feedback: 'Unstable judgment (2/3 agree, quorum 3): Cramped' }),
+    ]);
+
+    expect(xml).toContain('<testsuites name="ralph" tests="1" failures="0" errors="1">');
+    expect(xml).toContain('<error message="Unstable judgment (2/3 agree, quorum 3): Cramped" type="visual">');
+  });
+});
+
+describe('SARIF export', () => {
+  it('reports failed accessibility assertions at the page URL', () => {
+    const sarif = toSarif(RUN);
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].results).toHaveLength(1);
+    expect(sarif.runs[0].results[0]).toMatchObject({
+      ruleId: 'ralph/accessibility',
+      level: 'error',
+      message: { text: 'Submit button has <2:1> contrast & no label' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'http://localhost:3000/signup' } } }],
+      relatedLocations: [{ physicalLocation: { artifactLocation: { uri: 'tmp/visual-testing/accessibility.png' } } }],
+    });
+  });
+
+  it('reports each rule violation with its element path', () => {
+    const sarif = toSarif([entry({
+      name: 'accessibility',
+      criteria: 'Accessibility: WCAG AA.',
+      pass: false,
+      outcome: 'fail',
+      url: 'http://localhost:3000/signup',
+      violations: [
+        { rule: 'img-alt-missing', message: 'Image has no alt text', path: 'main > img' },
+        { rule: 'control-label-missing', message: 'textbox has no label', path: 'main > form "Signup" > textbox' },
+      ],
+    })]);
+
+    expect(sarif.runs[0].results.map(r => r.ruleId)).toEqual([
+      'ralph/a11y/img-alt-missing',
+      'ralph/a11y/control-label-missing',
+    ]);
+    expect(sarif.runs[0].results[1].locations[0]).toEqual({
+      physicalLocation: { artifactLocation: { uri: 'http://localhost:3000/signup' } },
+      logicalLocations: [{ fullyQualifiedName: 'main > form "Signup" > textbox' }],
+    });
+    expect(sarif.runs[0].tool.driver.rules.map(r => r.id)).toContain('ralph/a11y/img-alt-missing');
+  });
+
+  it('downgrades unstable verdicts to warnings', () => {
+    const sarif = toSarif([entry({ criteria: 'Accessibility: focus visible', pass: false, outcome: 'error', unstable: true })]);
+
+    expect(sarif.runs[0].results[0].level).toBe('warning');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * JUnit XML and SARIF Export of a Run Journal
+ *
+ * CI dashboards read JUnit XML and code-scanning views read SARIF, so a
+ * run journal (see run-journal) can be exported to both:
+ *
+ *   JUnit  One testcase per assertion, grouped into an llm-review and a
+ *          visual-testing suite. Feedback is the failure message; the
+ *          screenshot, baseline and diff are attached with the
+ *          [[ATTACHMENT|path]] convention most CI plugins understand.
+ *   SARIF  One result per failed accessibility assertion, located at the
+ *          page URL, with the screenshot as a related location.
+ *          Assertions failed by accessibility rules report one result
+ *          per violation instead, with the element path as a logical
+ *          location.
+ *
+ * Usage:
+ *   npm run ralph-report -- --junit tmp/junit.xml --sarif tmp/a11y.sarif
+ *
+ *   import { toJUnitXml, toSarif } from './run-export';
+ *   fs.writeFileSync('junit.xml', toJUnitXml(readRunJournal(journalPath)));
+ */
+
+import * as path from 'path';
+import { isFilePath } from './artifact-loader.js';
+import type { JournalEntry } from './run-journal.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JUnitOptions {
+  /** Name of the <testsuites> element (default: 'ralph') */
+  name?: string;
+}
+
+/** The subset of SARIF 2.1.0 written by toSarif */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: { driver: { name: string; rules: SarifRule[] } };
+    results: SarifResult[];
+  }[];
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  level: 'error' | 'warning';
+  message: { text: string };
+  locations: {
+    physicalLocation: { artifactLocation: { uri: string } };
+    logicalLocations?: { fullyQualifiedName: string }[];
+  }[];
+  relatedLocations?: { id: number; message: { text: string }; physicalLocation: { artifactLocation: { uri: string } } }[];
+  properties: { criteria: string; model?: string; timestamp: string };
+}
+
+// =============================================================================
+// Internal Utilities
+// =============================================================================
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const ACCESSIBILITY_RULE: SarifRule = {
+  id: 'ralph/accessibility',
+  name: 'AccessibilityJudgment',
+  shortDescription: { text: 'Page does not meet the accessibility criteria the judge reviewed' },
+};
+
+/** Descriptions of the deterministic rules in visual-testing's a11y-rules */
+const A11Y_RULE_DESCRIPTIONS: Record<string, string> = {
+  'name-missing': 'Interactive element has no accessible name',
+  'control-label-missing': 'Form control has no label',
+  'img-alt-missing': 'Image has no alt text',
+  'heading-level-skip': 'Heading level skips one or more levels',
+  'landmark-duplicate': 'Landmark role is repeated without distinct names',
+  'color-contrast': 'Text contrast is below WCAG AA',
+};
+
+function a11yRule(code: string): SarifRule {
+  return {
+    id: `ralph/a11y/${code}`,
+    name: code,
+    shortDescription: { text: A11Y_RULE_DESCRIPTIONS[code] ?? code },
+  };
+}
+
+/** Suite names per journal entry kind */
+const SUITES: Record<JournalEntry['kind'], string> = {
+  review: 'llm-review',
+  visual: 'visual-testing',
+};
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Files worth attaching to a testcase, as absolute paths
+ */
+function attachments(entry: JournalEntry): string[] {
+  const files = [entry.screenshotPath, entry.baselinePath, entry.diffPath];
+  if (entry.artifact && isFilePath(entry.artifact)) {
+    files.push(entry.artifact);
+  }
+  return files.filter((file): file is string => file !== undefined).map(file => path.resolve(file));
+}
+
+function renderTestCase(entry: JournalEntry): string {
+  const lines = [`    <testcase name="${escapeXml(entry.name)}" classname="${SUITES[entry.kind]}">`];
+
+  const properties = [
+    ['criteria', entry.criteria],
+    ['model', entry.model],
+    ['costUsd', entry.costUsd?.toFixed(6)],
+    ['url', entry.url],
+  ].filter((p): p is [string, string] => p[1] !== undefined);
+  lines.push('      <properties>');
+  for (const [name, value] of properties) {
+    lines.push(`        <property name="${name}" value="${escapeXml(value)}"/>`);
+  }
+  lines.push('      </properties>');
+
+  if (!entry.pass) {
+    const tag = entry.outcome === 'error' ? 'error' : 'failure';
+    const message = entry.feedback ?? 'Criteria not met';
+    lines.push(`      <${tag} message="${escapeXml(message)}" type="${entry.kind}">${escapeXml(message)}</${tag}>`);
+  }
+
+  const files = attachments(entry);
+  if (files.length > 0) {
+    lines.push(`      <system-out>${files.map(file => escapeXml(`[[ATTACHMENT|${file}]]`)).join('\n')}</system-out>`);
+  }
+
+  lines.push('    </testcase>');
+  return lines.join('\n');
+}
+
+/**
+ * Whether an entry is an accessibility assertion (assertAccessibility,
+ * assertPageAccessibility, or any criteria phrased the same way)
+ */
+function isAccessibilityEntry(entry: JournalEntry): boolean {
+  return entry.criteria.startsWith('Accessibility:') || entry.name === 'accessibility';
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Export journal entries as JUnit XML
+ */
+export function toJUnitXml(entries: JournalEntry[], options: JUnitOptions = {}): string {
+  const count = (list: JournalEntry[]) => ({
+    tests: list.length,
+    failures: list.filter(e => !e.pass && e.outcome !== 'error').length,
+    errors: list.filter(e => !e.pass && e.outcome === 'error').length,
+  });
+  const totals = count(entries);
+
+  const suites = (Object.keys(SUITES) as JournalEntry['kind'][])
+    .map(kind => entries.filter(e => e.kind === kind))
+    .filter(list => list.length > 0)
+    .map(list => {
+      const c = count(list);
+      return [
+        `  <testsuite name="${SUITES[list[0].kind]}" tests="${c.tests}" failures="${c.failures}" errors="${c.errors}" timestamp="${list[0].timestamp}">`,
+        ...list.map(renderTestCase),
+        '  </testsuite>',
+      ].join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(options.name ?? 'ralph')}" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Export failed accessibility assertions as a SARIF log, one result per
+ * rule violation or per failed judgment. Errored assertions are left
+ * out: they are not findings about the page. Unstable verdicts are
+ * reported as warnings.
+ */
+export function toSarif(entries: JournalEntry[]): SarifLog {
+  const failed = entries.filter(e => isAccessibilityEntry(e) && !e.pass && (e.outcome === 'fail' || e.unstable));
+  const results = failed.flatMap((entry): SarifResult[] => {
+    const uri = entry.url ?? entry.screenshotPath ?? entry.name;
+    const findings: { ruleId: string; text: string; logicalLocations?: { fullyQualifiedName: string }[] }[] =
+      entry.violations && entry.violations.length > 0
+        ? entry.violations.map(violation => ({
+            ruleId: a11yRule(violation.rule).id,
+            text: violation.message,
+            logicalLocations: [{ fullyQualifiedName: violation.path }],
+          }))
+        : [{ ruleId: ACCESSIBILITY_RULE.id, text: entry.feedback ?? 'Accessibility criteria not met' }];
+
+    return findings.map(finding => {
+      const result: SarifResult = {
+        ruleId: finding.ruleId,
+        level: entry.unstable ? 'warning' : 'error',
+        message: { text: finding.text },
+        locations: [{
+          physicalLocation: { artifactLocation: { uri } },
+          ...(finding.logicalLocations && { logicalLocations: finding.logicalLocations }),
+        }],
+        properties: { criteria: entry.criteria, model: entry.model, timestamp: entry.timestamp },
+      };
+      if (entry.screenshotPath) {
+        result.relatedLocations = [{
+          id: 1,
+          message: { text: 'Screenshot' },
+          physicalLocation: { artifactLocation: { uri: entry.screenshotPath } },
+        }];
+      }
+      return result;
+    });
+  });
+
+  const codes = new Set(failed.flatMap(e => (e.violations ?? []).map(v => v.rule)));
+  const rules = [ACCESSIBILITY_RULE, ...Array.from(codes, a11yRule)];
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{ tool: { driver: { name: 'ralph', rules } }, results }],
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Run Journal for LLM and Visual Reviews
+ *
+ * After a build loop the only trace of a judgment is its return value.
+ * When a journal is enabled, every ReviewResult and VisualAssertionResult
+ * is appended to it as one JSON line, with the criteria, verdict, model,
+ * cost and screenshots needed to render a report (see run-report).
+ *
+ * Usage:
+ *   import { setRunJournal } from './run-journal';
+ *
+ *   setRunJournal('./tmp/ralph-run/journal.ndjson');
+ *   await createReview({ criteria, artifact });   // appended automatically
+ *
+ * Environment (used when no journal is set):
+ *   RALPH_RUN_JOURNAL  Path of the journal file (default: journaling off)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JudgeUsage } from './judge-provider.js';
+import type { JudgeOutcome } from './judge-output.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface JournalEntry {
+  /** 'review' for llm-review, 'visual' for visual-testing */
+  kind: 'review' | 'visual';
+
+  /** Assertion name, e.g. the screenshot or baseline name */
+  name: string;
+
+  /** Criteria the judge evaluated */
+  criteria: string;
+
+  /** ISO timestamp of when the result was recorded */
+  timestamp: string;
+
+  pass: boolean;
+
+  outcome: JudgeOutcome;
+
+  feedback?: string;
+
+  /** Model that produced the judgment; absent when no judge was consulted */
+  model?: string;
+
+  usage?: JudgeUsage;
+
+  costUsd?: number;
+
+  /** Consensus agreement and stability, when sampled more than once */
+  agreement?: number;
+  unstable?: boolean;
+
+  /** Rubric aggregate and per-criterion scores (rubric reviews only) */
+  score?: number;
+  breakdown?: { name: string; score: number; rationale?: string }[];
+
+  /** Reviewed text (truncated) or artifact file path (reviews only) */
+  artifact?: string;
+
+  /** Page the screenshot was taken of (visual only) */
+  url?: string;
+
+  /** Screenshot the judgment was made on */
+  screenshotPath?: string;
+
+  /** Approved baseline and diff heatmap (baseline comparisons only) */
+  baselinePath?: string;
+  diffPath?: string;
+
+  /** Rule-coded accessibility violations, e.g. { rule: 'img-alt-missing', path: 'main > img' } */
+  violations?: { rule: string; message: string; path: string }[];
+}
+
+// =============================================================================
+// Journal Resolution
+// =============================================================================
+
+let journalPath: string | undefined;
+
+/**
+ * Journal every result to this file. Pass undefined to fall back to
+ * RALPH_RUN_JOURNAL.
+ */
+export function setRunJournal(filePath: string | undefined): void {
+  journalPath = filePath;
+}
+
+/**
+ * The journal file in use, or undefined when journaling is off
+ */
+export function resolveRunJournal(
+  env: Record<string, string | undefined> = process.env
+): string | undefined {
+  return journalPath ?? (env.RALPH_RUN_JOURNAL || undefined);
+}
+
+// =============================================================================
+// Reading and Writing
+// =============================================================================
+
+/** Longest text artifact kept in an entry */
+const MAX_ARTIFACT_LENGTH = 2000;
+
+/**
+ * Append a result to the journal, if one is enabled. The timestamp is
+ * filled in when absent.
+ */
+export function recordJournalEntry(
+  entry: Omit<JournalEntry, 'timestamp'> & { timestamp?: string }
+): void {
+  const filePath = resolveRunJournal();
+  if (!filePath) {
+    return;
+  }
+
+  const artifact =
+    entry.artifact && entry.artifact.length > MAX_ARTIFACT_LENGTH
+      ? `${entry.artifact.slice(0, MAX_ARTIFACT_LENGTH)}…`
+      : entry.artifact;
+  const line: JournalEntry = { ...entry, artifact, timestamp: entry.timestamp ?? new Date().toISOString() };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, JSON.stringify(line) + '\n');
+}
+
+/**
+ * Read every entry from a journal file, oldest first
+ */
+export function readRunJournal(filePath: string): JournalEntry[] {
+  const entries: JournalEntry[] = [];
+  fs.readFileSync(filePath, 'utf-8').split('\n').forEach((line, i) => {
+    if (line.trim() === '') {
+      return;
+    }
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      throw new Error(`Invalid journal entry on line ${i + 1} of ${filePath}`);
+    }
+  });
+  return entries;
+}
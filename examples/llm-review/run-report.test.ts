@@ -0,0 +1,140 @@
+/**
+ * Run Journal and HTML Report - Test Examples
+ *
+ * Shows how reviews are journaled as they run and rendered into a
+ * self-contained report afterwards.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { scriptedProvider } from './judge-provider';
+import { createReview } from './llm-review';
+import { readRunJournal, recordJournalEntry, setRunJournal, type JournalEntry } from './run-journal';
+import { renderRunReport, runRunReport } from './run-report';
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+let dir: string;
+let journal: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-report-'));
+  journal = path.join(dir, 'journal.ndjson');
+  setRunJournal(journal);
+});
+
+afterEach(() => {
+  setRunJournal(undefined);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Journal
+// =============================================================================
+
+describe('Run journal', () => {
+  it('appends every review with its model and cost', async () => {
+    const provider = scriptedProvider(
+      ['{"pass": true}', '{"pass": false, "feedback": "Too formal"}'],
+      { inputTokens: 1000, outputTokens: 100 }
+    );
+
+    await createReview({ criteria: 'Clear', artifact: 'Save changes', provider });
+    await createReview({ name: 'tone', criteria: 'Warm tone', artifact: 'Dear Sir', provider });
+
+    const entries = readRunJournal(journal);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ kind: 'review', name: 'Clear', pass: true, artifact: 'Save changes' });
+    expect(entries[1]).toMatchObject({
+      name: 'tone',
+      outcome: 'fail',
+      feedback: 'Too formal',
+      model: 'claude-haiku-4-20250514',
+      usage: { inputTokens: 1000, outputTokens: 100 },
+    });
+    expect(entries[1].costUsd).toBeCloseTo(0.0012);
+  });
+
+  it('records nothing when no journal is set', async () => {
+    setRunJournal(undefined);
+
+    await createReview({
+      criteria: 'Clear',
+      artifact: 'Save changes',
+      provider: scriptedProvider(['{"pass": true}']),
+    });
+
+    expect(fs.existsSync(journal)).toBe(false);
+  });
+});
+
+// =============================================================================
+// Report
+// =============================================================================
+
+describe('HTML report', () => {
+  const entry = (overrides: Partial<JournalEntry>): JournalEntry => ({
+    kind: 'visual',
+    name: 'home@desktop',
+    criteria: 'No layout changes',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    pass: true,
+    outcome: 'pass',
+    ...overrides,
+  });
+
+  it('inlines the baseline, current and diff images', () => {
+    for (const name of ['baseline.png', 'current.png', 'diff.png']) {
+      fs.writeFileSync(path.join(dir, name), PNG);
+    }
+
+    const html = renderRunReport([
+      entry({
+        pass: false,
+        outcome: 'fail',
+        feedback: 'Header <nav> moved',
+        model: 'claude-sonnet-4-20250514',
+        costUsd: 0.0123,
+        baselinePath: path.join(dir, 'baseline.png'),
+        screenshotPath: path.join(dir, 'current.png'),
+        diffPath: path.join(dir, 'diff.png'),
+      }),
+    ]);
+
+    expect(html.match(/src="data:image\/png;base64,/g)).toHaveLength(3);
+    expect(html).toContain('<figcaption>Baseline</figcaption>');
+    expect(html).toContain('Header &lt;nav&gt; moved');
+    expect(html).toContain('claude-sonnet-4-20250514 · $0.0123');
+    expect(html).not.toContain(dir);
+  });
+
+  it('lists failures first and can open filtered to them', () => {
+    const html = renderRunReport(
+      [entry({ name: 'passing' }), entry({ name: 'broken', pass: false, outcome: 'error', feedback: 'No screenshot' })],
+      { failuresOnly: true }
+    );
+
+    expect(html.indexOf('broken')).toBeLessThan(html.indexOf('passing'));
+    expect(html).toContain('id="failures-only" hidden checked');
+    expect(html).toContain('<span>1 errors</span>');
+  });
+
+  it('writes the report next to the journal, plus JUnit, from the CLI', async () => {
+    recordJournalEntry(entry({ screenshotPath: path.join(dir, 'missing.png') }));
+    const lines: string[] = [];
+    const junit = path.join(dir, 'ci', 'junit.xml');
+
+    const code = await runRunReport(['--journal', journal, '--junit', junit], line => lines.push(line));
+
+    expect(code).toBe(0);
+    expect(lines[0]).toContain('1/1 passed');
+    expect(fs.readFileSync(path.join(dir, 'report.html'), 'utf-8')).toContain('Missing: ');
+    expect(fs.readFileSync(junit, 'utf-8')).toContain('<testcase name="home@desktop"');
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * HTML Report for a Run Journal
+ *
+ * Turns the run journal (see run-journal) into a single self-contained
+ * HTML file: screenshots are inlined as data URIs, so the report can be
+ * attached to a CI run or opened after tmp/ is cleaned. Each assertion
+ * shows its criteria, verdict, feedback, screenshot (or the baseline,
+ * current and diff side by side), model, tokens and cost, and the report
+ * can be filtered down to failures.
+ *
+ * Usage:
+ *   npm run ralph-report -- [--journal <path>] [--out <path>] [--failures-only]
+ *   npm run ralph-report -- --junit <path> --sarif <path>   (see run-export)
+ *
+ *   import { writeRunReport } from './run-report';
+ *   writeRunReport('./tmp/ralph-run/journal.ndjson', './tmp/ralph-run/report.html');
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { detectFileKind, isFilePath, sniffImageType } from './artifact-loader.js';
+import { toJUnitXml, toSarif } from './run-export.js';
+import { readRunJournal, resolveRunJournal, type JournalEntry } from './run-journal.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RunReportOptions {
+  /** Page title (default: 'Ralph run report') */
+  title?: string;
+
+  /** Open with only failures and errors shown (default: false) */
+  failuresOnly?: boolean;
+}
+
+export interface RunReportSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+// =============================================================================
+// Internal Utilities
+// =============================================================================
+
+/** Journal used by the CLI when neither --journal nor RALPH_RUN_JOURNAL is given */
+const DEFAULT_JOURNAL = './tmp/ralph-run/journal.ndjson';
+
+const STYLES = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+header { padding: 16px 24px; background: #fff; border-bottom: 1px solid #d0d7de; }
+h1 { font-size: 20px; margin: 0 0 8px; }
+.summary span { margin-right: 16px; }
+main { padding: 16px 24px; }
+#failures-only:checked ~ main .entry.pass { display: none; }
+label.filter { display: block; padding: 8px 24px; background: #fff; border-bottom: 1px solid #d0d7de; }
+.entry { background: #fff; border: 1px solid #d0d7de; border-left-width: 4px; border-radius: 6px; margin-bottom: 16px; padding: 12px 16px; }
+.entry.pass { border-left-color: #1a7f37; }
+.entry.fail { border-left-color: #cf222e; }
+.entry.error { border-left-color: #9a6700; }
+.entry h2 { font-size: 16px; margin: 0 0 8px; }
+.badge { font-size: 12px; font-weight: 600; text-transform: uppercase; padding: 2px 8px; border-radius: 12px; color: #fff; margin-right: 8px; }
+.pass .badge { background: #1a7f37; }
+.fail .badge { background: #cf222e; }
+.error .badge { background: #9a6700; }
+.meta { color: #59636e; font-size: 12px; margin-bottom: 8px; }
+pre { white-space: pre-wrap; background: #f6f8fa; padding: 8px; border-radius: 4px; margin: 4px 0 8px; }
+.feedback { border-left: 3px solid #cf222e; padding-left: 8px; }
+.images { display: flex; gap: 8px; flex-wrap: wrap; }
+figure { margin: 0; flex: 1 1 0; min-width: 200px; }
+figure img { max-width: 100%; border: 1px solid #d0d7de; }
+figcaption { font-size: 12px; color: #59636e; }
+table { border-collapse: collapse; margin-bottom: 8px; }
+td, th { border: 1px solid #d0d7de; padding: 2px 8px; text-align: left; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline an image file, or describe why it can't be shown
+ */
+function renderImage(caption: string, filePath: string): string {
+  let body: string;
+  try {
+    const buffer = fs.readFileSync(filePath);
+    const mediaType = sniffImageType(buffer);
+    body = mediaType
+      ? `<img src="data:${mediaType};base64,${buffer.toString('base64')}" alt="${escapeHtml(caption)}">`
+      : `<p>Not an image: ${escapeHtml(filePath)}</p>`;
+  } catch {
+    body = `<p>Missing: ${escapeHtml(filePath)}</p>`;
+  }
+  return `<figure>${body}<figcaption>${escapeHtml(caption)}</figcaption></figure>`;
+}
+
+/**
+ * Screenshot, or baseline/current/diff when the entry compared with a baseline
+ */
+function renderImages(entry: JournalEntry): string {
+  const figures: string[] = [];
+  if (entry.baselinePath) {
+    figures.push(renderImage('Baseline', entry.baselinePath));
+  }
+  if (entry.screenshotPath) {
+    figures.push(renderImage(entry.baselinePath ? 'Current' : 'Screenshot', entry.screenshotPath));
+  }
+  if (entry.diffPath) {
+    figures.push(renderImage('Diff', entry.diffPath));
+  }
+  if (figures.length === 0 && entry.artifact && isFilePath(entry.artifact) && detectFileKind(entry.artifact) === 'image') {
+    figures.push(renderImage('Artifact', entry.artifact));
+  }
+  return figures.length > 0 ? `<div class="images">${figures.join('')}</div>` : '';
+}
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(4)}`;
+}
+
+function renderEntry(entry: JournalEntry): string {
+  const meta = [
+    entry.kind,
+    entry.url,
+    entry.model ?? 'no judge',
+    entry.usage ? `${entry.usage.inputTokens} in / ${entry.usage.outputTokens} out tokens` : undefined,
+    entry.costUsd !== undefined ? formatCost(entry.costUsd) : undefined,
+    entry.agreement !== undefined ? `${Math.round(entry.agreement * 100)}% agreement${entry.unstable ? ' (unstable)' : ''}` : undefined,
+    entry.score !== undefined ? `score ${entry.score.toFixed(1)}/10` : undefined,
+    entry.timestamp,
+  ].filter((part): part is string => part !== undefined);
+
+  const sections = [
+    `<h2><span class="badge">${entry.outcome}</span>${escapeHtml(entry.name)}</h2>`,
+    `<div class="meta">${meta.map(escapeHtml).join(' · ')}</div>`,
+    `<div>Criteria</div><pre>${escapeHtml(entry.criteria)}</pre>`,
+  ];
+  if (entry.feedback) {
+    sections.push(`<div>Feedback</div><pre class="feedback">${escapeHtml(entry.feedback)}</pre>`);
+  }
+  if (entry.breakdown && entry.breakdown.length > 0) {
+    const rows = entry.breakdown
+      .map(s => `<tr><td>${escapeHtml(s.name)}</td><td>${s.score}</td><td>${escapeHtml(s.rationale ?? '')}</td></tr>`)
+      .join('');
+    sections.push(`<table><tr><th>Criterion</th><th>Score</th><th>Rationale</th></tr>${rows}</table>`);
+  }
+  if (entry.artifact) {
+    sections.push(`<div>Artifact</div><pre>${escapeHtml(entry.artifact)}</pre>`);
+  }
+  sections.push(renderImages(entry));
+
+  const status = entry.pass ? 'pass' : entry.outcome === 'error' ? 'error' : 'fail';
+  return `<section class="entry ${status}">${sections.join('\n')}</section>`;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Totals over a set of journal entries
+ */
+export function summarizeRun(entries: JournalEntry[]): RunReportSummary {
+  return {
+    total: entries.length,
+    passed: entries.filter(e => e.pass).length,
+    failed: entries.filter(e => !e.pass && e.outcome !== 'error').length,
+    errors: entries.filter(e => !e.pass && e.outcome === 'error').length,
+    inputTokens: entries.reduce((sum, e) => sum + (e.usage?.inputTokens ?? 0), 0),
+    outputTokens: entries.reduce((sum, e) => sum + (e.usage?.outputTokens ?? 0), 0),
+    costUsd: entries.reduce((sum, e) => sum + (e.costUsd ?? 0), 0),
+  };
+}
+
+/**
+ * Render journal entries as a self-contained HTML page. Failures and
+ * errors are listed first; the "failures only" toggle needs no script.
+ */
+export function renderRunReport(entries: JournalEntry[], options: RunReportOptions = {}): string {
+  const title = options.title ?? 'Ralph run report';
+  const summary = summarizeRun(entries);
+  const ordered = [...entries.filter(e => !e.pass), ...entries.filter(e => e.pass)];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<div class="summary">
+<span>${summary.total} assertions</span>
+<span>${summary.passed} passed</span>
+<span>${summary.failed} failed</span>
+<span>${summary.errors} errors</span>
+<span>${summary.inputTokens + summary.outputTokens} tokens</span>
+<span>${formatCost(summary.costUsd)}</span>
+</div>
+</header>
+<input type="checkbox" id="failures-only" hidden${options.failuresOnly ? ' checked' : ''}>
+<label class="filter" for="failures-only">Show failures only (toggle)</label>
+<main>
+${ordered.length > 0 ? ordered.map(renderEntry).join('\n') : '<p>No assertions recorded.</p>'}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a journal file to an HTML report and return its totals
+ */
+export function writeRunReport(
+  journalPath: string,
+  reportPath: string,
+  options: RunReportOptions = {}
+): RunReportSummary {
+  const entries = readRunJournal(journalPath);
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, renderRunReport(entries, options));
+  return summarizeRun(entries);
+}
+
+// =============================================================================
+// CLI (ralph-report)
+// =============================================================================
+
+const USAGE = `Usage: ralph-report [options]
+
+Options:
+  --journal <path>  Run journal (default: RALPH_RUN_JOURNAL, else ${DEFAULT_JOURNAL})
+  --out <path>      Report file (default: report.html next to the journal)
+  --title <text>    Page title
+  --failures-only   Open with passing assertions hidden
+  --junit <path>    Also write JUnit XML
+  --sarif <path>    Also write SARIF for failed accessibility assertions`;
+
+/**
+ * Run the ralph-report command line. Returns the process exit code.
+ */
+export async function runRunReport(
+  argv: string[],
+  log: (line: string) => void = console.log
+): Promise<number> {
+  let journalPath = resolveRunJournal() ?? DEFAULT_JOURNAL;
+  let reportPath: string | undefined;
+  let junitPath: string | undefined;
+  let sarifPath: string | undefined;
+  const options: RunReportOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--journal' && argv[i + 1]) {
+      journalPath = argv[++i];
+    } else if (arg === '--out' && argv[i + 1]) {
+      reportPath = argv[++i];
+    } else if (arg === '--title' && argv[i + 1]) {
+      options.title = argv[++i];
+    } else if (arg === '--junit' && argv[i + 1]) {
+      junitPath = argv[++i];
+    } else if (arg === '--sarif' && argv[i + 1]) {
+      sarifPath = argv[++i];
+    } else if (arg === '--failures-only') {
+      options.failuresOnly = true;
+    } else if (arg === 'help' || arg === '--help' || arg === '-h') {
+      log(USAGE);
+      return 0;
+    } else {
+      log(`Unknown argument: ${arg}\n\n${USAGE}`);
+      return 1;
+    }
+  }
+
+  if (!fs.existsSync(journalPath)) {
+    log(`No run journal at ${journalPath}. Set RALPH_RUN_JOURNAL before the run to record one.`);
+    return 1;
+  }
+
+  const out = reportPath ?? path.join(path.dirname(journalPath), 'report.html');
+  const summary = writeRunReport(journalPath, out, options);
+  log(
+    `Wrote ${out}: ${summary.passed}/${summary.total} passed, ` +
+      `${summary.failed} failed, ${summary.errors} errors, ${formatCost(summary.costUsd)}`
+  );
+
+  const exports: [string | undefined, () => string][] = [
+    [junitPath, () => toJUnitXml(readRunJournal(journalPath))],
+    [sarifPath, () => JSON.stringify(toSarif(readRunJournal(journalPath)), null, 2) + '\n'],
+  ];
+  for (const [exportPath, render] of exports) {
+    if (exportPath) {
+      fs.mkdirSync(path.dirname(exportPath), { recursive: true });
+      fs.writeFileSync(exportPath, render());
+      log(`Wrote ${exportPath}`);
+    }
+  }
+  return 0;
+}
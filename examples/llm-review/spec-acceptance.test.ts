@@ -0,0 +1,158 @@
+/**
+ * Spec-Driven Acceptance - Test Examples
+ *
+ * Shows how Quality Requirements in a spec become judge calls and how the
+ * results are written back as checkboxes. Uses a scripted judge and a
+ * fake page judge, so no API key or browser is needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { scriptedProvider } from './judge-provider';
+import { parseSpec, runRalphAcceptance, runSpecAcceptance, type PageJudgeFactory } from './spec-acceptance';
+
+const SPEC = `# Spec: Onboarding
+
+## Acceptance Criteria
+
+### Functional Requirements
+
+- [ ] Sends a welcome email
+
+### Quality Requirements
+
+- [ ] Welcome copy is warm and concise (source: copy)
+- [x] Signup page has one clear call to action (source: signup)
+- [ ] Emails feel personal (source: emails)
+- [ ] Pages load in under a second
+
+### Artifact Sources
+
+- \`copy\`: copy/welcome.md
+- \`signup\`: page /signup
+
+## Test Requirements
+
+\`\`\`markdown
+- [ ] Not a criterion, just an example
+\`\`\`
+`;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-acceptance-'));
+  fs.mkdirSync(path.join(dir, 'copy'));
+  fs.writeFileSync(path.join(dir, 'copy', 'welcome.md'), 'Welcome aboard! Let us get you set up.');
+  fs.writeFileSync(path.join(dir, 'onboarding.md'), SPEC);
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Page judge that records the pages it opens and passes them all */
+function fakePages(opened: string[]): PageJudgeFactory {
+  return () => ({
+    async judge(url, name) {
+      opened.push(url);
+      return { outcome: 'pass', screenshotPath: `${name}.png` };
+    },
+    async close() {},
+  });
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('Spec parsing', () => {
+  it('reads Quality Requirements with their sources, outside code blocks', () => {
+    const spec = parseSpec(SPEC);
+
+    expect(spec.title).toBe('Onboarding');
+    expect(spec.criteria.map(c => [c.text, c.source, c.checked])).toEqual([
+      ['Welcome copy is warm and concise', 'copy', false],
+      ['Signup page has one clear call to action', 'signup', true],
+      ['Emails feel personal', 'emails', false],
+      ['Pages load in under a second', undefined, false],
+    ]);
+    expect(spec.sources).toEqual({
+      copy: { name: 'copy', kind: 'file', target: 'copy/welcome.md' },
+      signup: { name: 'signup', kind: 'page', target: '/signup' },
+    });
+  });
+
+  it('reads other sections on request', () => {
+    expect(parseSpec(SPEC, ['Functional Requirements']).criteria.map(c => c.text)).toEqual(['Sends a welcome email']);
+  });
+
+  it('parses the example spec', () => {
+    const spec = parseSpec(fs.readFileSync(path.join(__dirname, '../specs/example-spec.md'), 'utf-8'));
+
+    expect(spec.title).toBe('Color Palette Extraction');
+    expect(spec.criteria.map(c => c.source)).toEqual(['palette', 'palette-ui', undefined]);
+    expect(spec.sources['palette-ui']).toEqual({ name: 'palette-ui', kind: 'page', target: '/palette' });
+  });
+});
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+describe('Spec acceptance runner', () => {
+  it('judges each criterion against its source and writes checkboxes back', async () => {
+    const provider = scriptedProvider(['{"pass": false, "feedback": "Reads as formal, not warm"}']);
+    const opened: string[] = [];
+
+    const report = await runSpecAcceptance(path.join(dir, 'onboarding.md'), {
+      rootDir: dir,
+      outDir: path.join(dir, 'out'),
+      baseUrl: 'http://app.test',
+      provider,
+      pageJudge: fakePages(opened),
+    });
+
+    expect(report.results.map(r => r.outcome)).toEqual(['fail', 'pass', 'error', 'skipped']);
+    expect(report).toMatchObject({ passed: 1, failed: 1, errors: 1, skipped: 1 });
+    expect(report.results[2].feedback).toBe('Unknown artifact source: emails');
+    expect(opened).toEqual(['http://app.test/signup']);
+    expect(report.results[1].screenshotPath).toBe('spec-signup-page-has-one-clear-call-to-action.png');
+
+    const request = provider.calls[0].content.find(block => block.type === 'text');
+    expect(request?.type === 'text' && request.text).toContain('Welcome aboard!');
+
+    const written = fs.readFileSync(report.resultsPath, 'utf-8');
+    expect(report.resultsPath).toBe(path.join(dir, 'out', 'onboarding.results.md'));
+    expect(written).toContain('- [ ] Welcome copy is warm and concise (source: copy) — fail: Reads as formal, not warm');
+    expect(written).toContain('- [x] Signup page has one clear call to action (source: signup)\n');
+    expect(written).toContain('- [ ] Pages load in under a second\n');
+  });
+
+  it('reports a missing artifact file or page judge without calling the judge', async () => {
+    fs.rmSync(path.join(dir, 'copy', 'welcome.md'));
+    const provider = scriptedProvider(['{"pass": true}']);
+
+    const report = await runSpecAcceptance(path.join(dir, 'onboarding.md'), {
+      rootDir: dir,
+      outDir: path.join(dir, 'out'),
+      sections: ['Quality Requirements'],
+      provider,
+    });
+
+    expect(report.results[0]).toMatchObject({ outcome: 'error', feedback: 'Artifact not found: copy/welcome.md' });
+    expect(report.results[1]).toMatchObject({ outcome: 'error', feedback: 'Page sources need a pageJudge' });
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('exits non-zero from the CLI for a missing spec', async () => {
+    const lines: string[] = [];
+
+    const code = await runRalphAcceptance([path.join(dir, 'missing.md')], line => lines.push(line));
+
+    expect(code).toBe(1);
+    expect(lines[0]).toContain('missing.md: not found');
+  });
+});
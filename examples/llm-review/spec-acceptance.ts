@@ -0,0 +1,431 @@
+/**
+ * Spec-Driven Acceptance Runner
+ *
+ * Turns the acceptance criteria in specs/*.md into judge calls, so
+ * backpressure comes straight from the specs instead of hand-written
+ * tests. Checklist items under the "Quality Requirements" heading (or any
+ * headings passed in `sections`) are each mapped to an artifact source
+ * declared in the spec's "Artifact Sources" list:
+ *
+ *   ### Quality Requirements
+ *
+ *   - [ ] Color extraction produces visually representative results (source: palette)
+ *   - [ ] Palette ordering feels natural (most prominent first) (source: palette-ui)
+ *
+ *   ### Artifact Sources
+ *
+ *   - `palette`: ./tmp/palette-comparison.png
+ *   - `palette-ui`: page /palette
+ *
+ * File sources go to createReview (any artifact-loader type); `page`
+ * sources are screenshotted and judged visually by the `pageJudge` option
+ * (ralph-acceptance passes createPageJudge from visual-testing).
+ * A source named `default` is used for items without `(source: ...)`;
+ * items with no source at all are skipped.
+ *
+ * Results are written back as checkbox state into a copy of the spec:
+ * passing items are ticked, failing ones keep an empty box and get the
+ * judge's feedback appended.
+ *
+ * Usage:
+ *   npm run ralph-acceptance -- specs/*.md [--base-url <url>] [--out <dir>]
+ *
+ *   const report = await runSpecAcceptance('specs/color-palette.md');
+ *   report.results.filter(r => r.outcome === 'fail');
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createReview } from './llm-review.js';
+import type { JudgeProvider } from './judge-provider.js';
+import type { JudgeOutcome } from './judge-output.js';
+import type { ModelTierName } from './model-registry.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ArtifactSource {
+  name: string;
+
+  /** 'file' for a path given to createReview, 'page' for a page to screenshot */
+  kind: 'file' | 'page';
+
+  /** File path, page path relative to the base URL, or absolute URL */
+  target: string;
+}
+
+export interface SpecCriterion {
+  /** Criterion text without the source annotation */
+  text: string;
+
+  /** Heading the item is listed under */
+  section: string;
+
+  /** Whether the box was already ticked in the spec */
+  checked: boolean;
+
+  /** Source name from `(source: name)` */
+  source?: string;
+
+  /** 0-based line index in the spec */
+  line: number;
+}
+
+export interface ParsedSpec {
+  /** First `#` heading, without a leading "Spec:" */
+  title: string;
+
+  criteria: SpecCriterion[];
+
+  sources: Record<string, ArtifactSource>;
+}
+
+/** 'skipped' when no artifact source is mapped to the criterion */
+export type CriterionOutcome = 'pass' | 'fail' | 'error' | 'skipped';
+
+export interface CriterionResult {
+  criterion: SpecCriterion;
+  outcome: CriterionOutcome;
+
+  /** Judge feedback, error message, or why the criterion was skipped */
+  feedback?: string;
+
+  source?: ArtifactSource;
+
+  /** Screenshot judged for page sources */
+  screenshotPath?: string;
+}
+
+/** Screenshots pages and judges them, e.g. in one browser session */
+export interface PageJudge {
+  /** Open a full URL and judge its screenshot against the criterion */
+  judge(
+    url: string,
+    name: string,
+    criteria: string
+  ): Promise<{ outcome: JudgeOutcome; feedback?: string; screenshotPath?: string }>;
+
+  close(): Promise<void>;
+}
+
+export interface PageJudgeSettings {
+  /** Where screenshots are written */
+  outputDir: string;
+
+  intelligence: ModelTierName;
+  provider?: JudgeProvider;
+}
+
+/** Creates the page judge for one spec run */
+export type PageJudgeFactory = (settings: PageJudgeSettings) => PageJudge;
+
+export interface SpecAcceptanceOptions {
+  /** Headings whose checklist items are judged (default: ['Quality Requirements']) */
+  sections?: string[];
+
+  /** Base URL for page sources (default: TEST_BASE_URL, else http://localhost:3000) */
+  baseUrl?: string;
+
+  /** Directory file sources are relative to (default: the current directory) */
+  rootDir?: string;
+
+  /** Where results files are written (default: ./tmp/acceptance) */
+  outDir?: string;
+
+  /** Model registry tier for all judgments (default: 'smart') */
+  intelligence?: ModelTierName;
+
+  /** Model backend (default: resolved like llm-review) */
+  provider?: JudgeProvider;
+
+  /** Judge for page sources (required for them), e.g. createPageJudge() */
+  pageJudge?: PageJudgeFactory;
+}
+
+export interface SpecAcceptanceReport {
+  /** Path of the spec that was run */
+  spec: string;
+
+  title: string;
+  results: CriterionResult[];
+  passed: number;
+  failed: number;
+  errors: number;
+  skipped: number;
+
+  /** Copy of the spec with checkbox state written back */
+  resultsPath: string;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const CHECKBOX = /^(\s*[-*+]\s+\[)([ xX])(\]\s+)(.*)$/;
+const SOURCE_ANNOTATION = /\s*\(source:\s*([\w.-]+)\)\s*$/;
+const SOURCE_DECLARATION = /^\s*[-*+]\s+`?([\w.-]+)`?\s*:\s*(.+?)\s*$/;
+
+/**
+ * Parse spec markdown into criteria and artifact sources. Fenced code
+ * blocks are ignored.
+ */
+export function parseSpec(markdown: string, sections: string[] = ['Quality Requirements']): ParsedSpec {
+  const wanted = new Set(sections.map(s => s.toLowerCase()));
+  const criteria: SpecCriterion[] = [];
+  const sources: Record<string, ArtifactSource> = {};
+  let title = '';
+  let section = '';
+  let inFence = false;
+
+  markdown.split('\n').forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) {
+      return;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      section = heading[2];
+      if (!title && heading[1] === '#') {
+        title = section.replace(/^Spec:\s*/i, '');
+      }
+      return;
+    }
+
+    if (section.toLowerCase() === 'artifact sources') {
+      const declaration = SOURCE_DECLARATION.exec(line);
+      if (declaration) {
+        const [, name, value] = declaration;
+        const page = /^page\s+(\S+)$/i.exec(value);
+        sources[name] = page
+          ? { name, kind: 'page', target: page[1] }
+          : { name, kind: 'file', target: value.replace(/^file\s+/i, '').replace(/^`|`$/g, '') };
+      }
+      return;
+    }
+
+    const item = CHECKBOX.exec(line);
+    if (item && wanted.has(section.toLowerCase())) {
+      const annotation = SOURCE_ANNOTATION.exec(item[4]);
+      criteria.push({
+        text: annotation ? item[4].slice(0, annotation.index).trim() : item[4].trim(),
+        section,
+        checked: item[2] !== ' ',
+        source: annotation?.[1],
+        line: index,
+      });
+    }
+  });
+
+  return { title, criteria, sources };
+}
+
+/**
+ * Write checkbox state back into the spec: passing criteria are ticked,
+ * failing and errored ones are unticked with the reason appended, and
+ * skipped ones are left as they were.
+ */
+export function renderSpecResults(markdown: string, results: CriterionResult[]): string {
+  const lines = markdown.split('\n');
+  for (const result of results) {
+    if (result.outcome === 'skipped') {
+      continue;
+    }
+    const item = CHECKBOX.exec(lines[result.criterion.line]);
+    if (!item) {
+      continue;
+    }
+    const reason = (result.feedback ?? '').split('\n')[0].trim();
+    const note = result.outcome === 'pass'
+      ? ''
+      : ` — ${result.outcome === 'error' ? 'error' : 'fail'}${reason ? `: ${reason}` : ''}`;
+    lines[result.criterion.line] = `${item[1]}${result.outcome === 'pass' ? 'x' : ' '}${item[3]}${item[4]}${note}`;
+  }
+  return lines.join('\n');
+}
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'criterion';
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Judge every criterion of a spec against its artifact source and write
+ * `<outDir>/<spec>.results.md`. Criteria run one after another so page
+ * sources can share one page judge.
+ */
+export async function runSpecAcceptance(
+  specPath: string,
+  options: SpecAcceptanceOptions = {}
+): Promise<SpecAcceptanceReport> {
+  const markdown = fs.readFileSync(specPath, 'utf-8');
+  const spec = parseSpec(markdown, options.sections);
+  const rootDir = options.rootDir ?? process.cwd();
+  const outDir = options.outDir ?? './tmp/acceptance';
+  const intelligence = options.intelligence ?? 'smart';
+
+  let pages: PageJudge | undefined;
+  const results: CriterionResult[] = [];
+
+  try {
+    for (const criterion of spec.criteria) {
+      const sourceName = criterion.source ?? (spec.sources.default ? 'default' : undefined);
+      const source = sourceName ? spec.sources[sourceName] : undefined;
+      if (!source) {
+        results.push({
+          criterion,
+          outcome: criterion.source ? 'error' : 'skipped',
+          feedback: criterion.source
+            ? `Unknown artifact source: ${criterion.source}`
+            : 'No artifact source; verify with a programmatic test',
+        });
+        continue;
+      }
+
+      try {
+        if (source.kind === 'file') {
+          const artifact = path.resolve(rootDir, source.target);
+          if (!fs.existsSync(artifact)) {
+            results.push({ criterion, source, outcome: 'error', feedback: `Artifact not found: ${source.target}` });
+            continue;
+          }
+          const review = await createReview({
+            criteria: criterion.text,
+            artifact,
+            intelligence,
+            provider: options.provider,
+          });
+          results.push({ criterion, source, outcome: review.outcome, feedback: review.feedback });
+        } else if (!options.pageJudge) {
+          results.push({ criterion, source, outcome: 'error', feedback: 'Page sources need a pageJudge' });
+        } else {
+          const baseUrl = options.baseUrl ?? process.env.TEST_BASE_URL ?? 'http://localhost:3000';
+          pages ??= options.pageJudge({ outputDir: path.join(outDir, 'screenshots'), intelligence, provider: options.provider });
+          const visual = await pages.judge(
+            /^https?:\/\//.test(source.target) ? source.target : `${baseUrl}${source.target}`,
+            `spec-${slug(criterion.text)}`,
+            criterion.text
+          );
+          results.push({
+            criterion,
+            source,
+            outcome: visual.outcome,
+            feedback: visual.feedback,
+            screenshotPath: visual.screenshotPath,
+          });
+        }
+      } catch (error) {
+        results.push({ criterion, source, outcome: 'error', feedback: errorMessage(error) });
+      }
+    }
+  } finally {
+    await pages?.close();
+  }
+
+  const resultsPath = path.join(outDir, `${path.basename(specPath, '.md')}.results.md`);
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(resultsPath, renderSpecResults(markdown, results));
+
+  const count = (outcome: CriterionOutcome) => results.filter(r => r.outcome === outcome).length;
+  return {
+    spec: specPath,
+    title: spec.title,
+    results,
+    passed: count('pass'),
+    failed: count('fail'),
+    errors: count('error'),
+    skipped: count('skipped'),
+    resultsPath,
+  };
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+const USAGE = `Usage: ralph-acceptance <spec.md>... [options]
+
+Options:
+  --base-url <url>    Base URL for page sources (default: TEST_BASE_URL, else http://localhost:3000)
+  --out <dir>         Where results files are written (default: ./tmp/acceptance)
+  --section <name>    Heading to judge; repeat for several (default: Quality Requirements)
+  --fast              Use the fast model instead of the smart one`;
+
+const MARKS: Record<CriterionOutcome, string> = { pass: '✓', fail: '✗', error: '!', skipped: '-' };
+
+/**
+ * Run the ralph-acceptance command line. Returns the process exit code:
+ * 0 when no criterion failed or errored, 1 otherwise. Page sources are
+ * judged with `judges.pageJudge`.
+ */
+export async function runRalphAcceptance(
+  argv: string[],
+  log: (line: string) => void = console.log,
+  judges: Pick<SpecAcceptanceOptions, 'pageJudge'> = {}
+): Promise<number> {
+  const specs: string[] = [];
+  const sections: string[] = [];
+  const options: SpecAcceptanceOptions = { ...judges };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--base-url' && argv[i + 1]) {
+      options.baseUrl = argv[++i];
+    } else if (arg === '--out' && argv[i + 1]) {
+      options.outDir = argv[++i];
+    } else if (arg === '--section' && argv[i + 1]) {
+      sections.push(argv[++i]);
+    } else if (arg === '--fast') {
+      options.intelligence = 'fast';
+    } else if (arg === 'help' || arg === '--help' || arg === '-h') {
+      log(USAGE);
+      return 0;
+    } else if (arg.startsWith('--')) {
+      log(`Unknown argument: ${arg}\n\n${USAGE}`);
+      return 1;
+    } else {
+      specs.push(arg);
+    }
+  }
+
+  if (specs.length === 0) {
+    log(USAGE);
+    return 1;
+  }
+  if (sections.length > 0) {
+    options.sections = sections;
+  }
+
+  let failures = 0;
+  for (const spec of specs) {
+    if (!fs.existsSync(spec)) {
+      log(`! ${spec}: not found`);
+      failures++;
+      continue;
+    }
+    const report = await runSpecAcceptance(spec, options);
+    log(`${report.title || spec} (${spec})`);
+    for (const result of report.results) {
+      const feedback = result.outcome === 'pass' || !result.feedback ? '' : `: ${result.feedback.split('\n')[0]}`;
+      log(`  ${MARKS[result.outcome]} ${result.criterion.text}${feedback}`);
+    }
+    log(
+      `  ${report.passed} passed, ${report.failed} failed, ${report.errors} errors, ` +
+        `${report.skipped} skipped. Results: ${report.resultsPath}`
+    );
+    failures += report.failed + report.errors;
+  }
+  return failures > 0 ? 1 : 0;
+}
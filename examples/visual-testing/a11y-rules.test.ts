@@ -0,0 +1,193 @@
+/**
+ * Deterministic Accessibility Rules - Test Examples
+ *
+ * Shows which accessibility problems are caught by rule, with rule codes
+ * and element paths, and what is still left to the judge. No browser or
+ * API key needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkAccessibilityTree, checkColorContrast, contrastRatio, parseAriaSnapshot } from './a11y-rules.js';
+import type { TextColorSample } from './browser-driver.js';
+import { fakeDriver } from './fake-driver.js';
+import { VisualTestContext } from './visual-testing.js';
+import { scriptedProvider } from '../llm-review/judge-provider.js';
+
+const SIGNUP = `- banner:
+  - link "Home":
+    - /url: /
+  - navigation "Main":
+    - link "Pricing"
+- main:
+  - heading "Sign up" [level=1]
+  - form "Signup":
+    - textbox "Email"
+    - textbox
+    - checkbox "Subscribe" [checked]
+    - button
+  - heading "Why join" [level=3]
+  - img
+  - img "Team photo"
+  - navigation "Main":
+    - link "Terms"
+- contentinfo:
+  - text: © 2026
+- contentinfo`;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('ARIA snapshot parsing', () => {
+  it('nests elements by indentation and reads names and attributes', () => {
+    const [banner, main] = parseAriaSnapshot(SIGNUP);
+
+    expect(banner.role).toBe('banner');
+    expect(banner.children.map(c => c.name)).toEqual(['Home', 'Main']);
+    expect(banner.children[0].children).toEqual([]);
+    expect(main.children[0]).toMatchObject({ role: 'heading', name: 'Sign up', attributes: { level: '1' } });
+    expect(main.children[1].children[2].attributes).toEqual({ checked: '' });
+  });
+});
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+describe('Accessibility tree rules', () => {
+  const violations = checkAccessibilityTree(SIGNUP);
+  const byRule = (rule: string) => violations.filter(v => v.rule === rule);
+
+  it('reports unnamed widgets and unlabeled form controls with their path', () => {
+    expect(byRule('name-missing').map(v => v.path)).toEqual(['main > form "Signup" > button']);
+    expect(byRule('control-label-missing').map(v => v.path)).toEqual(['main > form "Signup" > textbox']);
+  });
+
+  it('reports images without alt text', () => {
+    expect(byRule('img-alt-missing').map(v => v.path)).toEqual(['main > img']);
+  });
+
+  it('reports heading levels that skip', () => {
+    expect(byRule('heading-level-skip')).toEqual([{
+      rule: 'heading-level-skip',
+      message: 'Heading level 3 follows level 1',
+      path: 'main > heading "Why join"',
+    }]);
+  });
+
+  it('reports repeated landmarks that should be unique or distinctly named', () => {
+    expect(byRule('landmark-duplicate').map(v => v.path)).toEqual([
+      'main > navigation "Main"',
+      'contentinfo',
+    ]);
+  });
+
+  it('passes a clean tree', () => {
+    expect(checkAccessibilityTree('- main:\n  - heading "Title" [level=1]\n  - button "Save"')).toEqual([]);
+  });
+});
+
+describe('Color contrast', () => {
+  const sample = (overrides: Partial<TextColorSample>): TextColorSample => ({
+    path: 'main > p.hint',
+    text: 'We never share your email',
+    color: [0, 0, 0],
+    background: [255, 255, 255],
+    fontSizePx: 16,
+    fontWeight: 400,
+    ...overrides,
+  });
+
+  it('computes WCAG contrast ratios', () => {
+    expect(contrastRatio([0, 0, 0], [255, 255, 255])).toBeCloseTo(21);
+    expect(contrastRatio([119, 119, 119], [255, 255, 255])).toBeCloseTo(4.48, 2);
+  });
+
+  it('requires 4.5:1 for body text and 3:1 for large text', () => {
+    const grey: [number, number, number] = [119, 119, 119];
+
+    expect(checkColorContrast([sample({ color: grey })])).toEqual([{
+      rule: 'color-contrast',
+      message: 'Contrast 4.48:1 is below 4.5:1 for "We never share your email"',
+      path: 'main > p.hint',
+    }]);
+    expect(checkColorContrast([sample({ color: grey, fontSizePx: 24 })])).toEqual([]);
+    expect(checkColorContrast([sample({ color: grey, fontSizePx: 19, fontWeight: 700 })])).toEqual([]);
+  });
+
+  it('skips text over a background image', () => {
+    expect(checkColorContrast([sample({ color: [255, 255, 255], backgroundImage: true })])).toEqual([]);
+  });
+});
+
+// =============================================================================
+// assertAccessibility
+// =============================================================================
+
+describe('assertAccessibility', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-a11y-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  const pageDriver = (tree: string, colors: TextColorSample[] = []) =>
+    fakeDriver({ accessibilityTree: async () => tree, textColors: async () => colors });
+
+  it('fails on rule violations without consulting the judge', async () => {
+    const provider = scriptedProvider([]);
+    const driver = pageDriver(SIGNUP);
+    const session = new VisualTestContext({ baseUrl: 'http://app.test', outputDir, driver, provider });
+
+    const result = await session.assertAccessibility('WCAG AA');
+
+    expect(result).toMatchObject({ pass: false, outcome: 'fail' });
+    expect(result.violations).toHaveLength(6);
+    expect(result.feedback).toContain('[img-alt-missing] main > img: Image has no alt text');
+    expect(result.model).toBeUndefined();
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('asks the judge only about subjective criteria when the rules pass', async () => {
+    const provider = scriptedProvider(['{"pass": true}']);
+    const driver = pageDriver('- main:\n  - button "Save"');
+    const session = new VisualTestContext({ baseUrl: 'http://app.test', outputDir, driver, provider });
+
+    const result = await session.assertAccessibility('WCAG AA');
+
+    expect(result.pass).toBe(true);
+    const prompt = provider.calls[0].content.find(block => block.type === 'text');
+    const text = prompt?.type === 'text' ? prompt.text : '';
+    expect(text).toContain('focus indicators');
+    expect(text).toContain('already checked by rule and passed');
+    expect(text).not.toContain('button "Save"');
+  });
+
+  it('leaves contrast over background images to the judge', async () => {
+    const provider = scriptedProvider(['{"pass": true}']);
+    const hero: TextColorSample = {
+      path: 'header.hero > h1',
+      text: 'Ship faster',
+      color: [255, 255, 255],
+      background: [255, 255, 255],
+      backgroundImage: true,
+      fontSizePx: 16,
+      fontWeight: 400,
+    };
+    const driver = pageDriver('- main:\n  - heading "Ship faster" [level=1]', [hero]);
+    const session = new VisualTestContext({ baseUrl: 'http://app.test', outputDir, driver, provider });
+
+    const result = await session.assertAccessibility('WCAG AA');
+
+    expect(result).toMatchObject({ pass: true, outcome: 'pass' });
+    const prompt = provider.calls[0].content.find(block => block.type === 'text');
+    expect(prompt?.type === 'text' && prompt.text).toContain('contrast of text over background images');
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Deterministic Accessibility Rules
+ *
+ * Checks the objective parts of WCAG on the page's accessibility tree and
+ * sampled text colors, so the LLM judge is only asked about subjective
+ * criteria. Each violation carries a rule code and the path of the
+ * offending element in the tree.
+ *
+ * Rules:
+ *   name-missing           Buttons, links and other widgets without an accessible name
+ *   control-label-missing  Form controls without a label
+ *   img-alt-missing        Images without alt text
+ *   heading-level-skip     Heading levels that jump, e.g. h2 followed by h4
+ *   landmark-duplicate     A landmark role repeated without distinct names
+ *   color-contrast         Text below the WCAG AA contrast ratio (4.5:1, 3:1 for large text)
+ *
+ * The tree is parsed from the ARIA snapshot text both drivers produce, e.g.
+ *   - navigation "Main":
+ *     - link "Home"
+ *   - heading "Pricing" [level=2]
+ *
+ * Usage:
+ *   const violations = [
+ *     ...checkAccessibilityTree(await driver.accessibilityTree()),
+ *     ...checkColorContrast(await driver.textColors()),
+ *   ];
+ */
+
+import type { TextColorSample } from './browser-driver.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type A11yRule =
+  | 'name-missing'
+  | 'control-label-missing'
+  | 'img-alt-missing'
+  | 'heading-level-skip'
+  | 'landmark-duplicate'
+  | 'color-contrast';
+
+export interface A11yViolation {
+  rule: A11yRule;
+
+  /** What is wrong, for people and for the report */
+  message: string;
+
+  /** Element path, e.g. 'main > form "Signup" > textbox' or a CSS path for contrast */
+  path: string;
+}
+
+/** One element of a parsed ARIA snapshot */
+export interface AriaNode {
+  role: string;
+
+  /** Accessible name, if any */
+  name?: string;
+
+  /** Bracketed attributes, e.g. { level: '2' } or { checked: '' } */
+  attributes: Record<string, string>;
+
+  children: AriaNode[];
+}
+
+// =============================================================================
+// Internal Utilities
+// =============================================================================
+
+/** Widgets that must have an accessible name */
+const NAMED_WIDGETS = new Set([
+  'button', 'link', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'treeitem', 'option',
+]);
+
+/** Form controls that must have a label */
+const FORM_CONTROLS = new Set([
+  'textbox', 'searchbox', 'combobox', 'checkbox', 'radio', 'switch', 'slider', 'spinbutton', 'listbox',
+]);
+
+/** Landmarks a page should have at most one of */
+const UNIQUE_LANDMARKS = new Set(['banner', 'main', 'contentinfo']);
+
+/** Landmarks that may repeat when each has its own name */
+const NAMED_LANDMARKS = new Set(['navigation', 'complementary', 'region', 'search', 'form']);
+
+/** `- role "name" [attr=value] [attr]: inline text` */
+const LINE_PATTERN = /^(\s*)-\s+([A-Za-z][\w-]*)(?:\s+"((?:[^"\\]|\\.)*)")?((?:\s*\[[^\]]*\])*)\s*(?::\s*(.*))?$/;
+
+function label(node: AriaNode): string {
+  return node.name ? `${node.role} "${node.name}"` : node.role;
+}
+
+function walk(nodes: AriaNode[], visit: (node: AriaNode, path: string) => void, parent: string = ''): void {
+  for (const node of nodes) {
+    const path = parent ? `${parent} > ${label(node)}` : label(node);
+    visit(node, path);
+    walk(node.children, visit, path);
+  }
+}
+
+/**
+ * Relative luminance of an sRGB color (WCAG 2.x)
+ */
+function luminance([r, g, b]: [number, number, number]): number {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse ARIA snapshot text into a tree. Lines that aren't elements
+ * (properties like `- /url: /home`, plain text) are skipped.
+ */
+export function parseAriaSnapshot(text: string): AriaNode[] {
+  const roots: AriaNode[] = [];
+  const stack: { indent: number; node: AriaNode }[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = LINE_PATTERN.exec(line);
+    if (!match || match[2] === 'text') {
+      continue;
+    }
+    const [, indentText, role, name, attributeText] = match;
+    const attributes: Record<string, string> = {};
+    for (const [, attribute] of attributeText.matchAll(/\[([^\]]*)\]/g)) {
+      const [key, ...value] = attribute.split('=');
+      attributes[key.trim()] = value.join('=').trim();
+    }
+
+    const node: AriaNode = {
+      role,
+      name: name ? name.replace(/\\(.)/g, '$1') : undefined,
+      attributes,
+      children: [],
+    };
+    const indent = indentText.length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].node.children : roots).push(node);
+    stack.push({ indent, node });
+  }
+  return roots;
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+/**
+ * Run the tree rules (names, labels, alt text, headings, landmarks) on
+ * ARIA snapshot text
+ */
+export function checkAccessibilityTree(snapshot: string): A11yViolation[] {
+  const violations: A11yViolation[] = [];
+  const landmarks = new Map<string, string[]>();
+  let previousLevel: number | undefined;
+
+  walk(parseAriaSnapshot(snapshot), (node, path) => {
+    const named = Boolean(node.name && node.name.trim());
+
+    if (NAMED_WIDGETS.has(node.role) && !named) {
+      violations.push({ rule: 'name-missing', message: `${node.role} has no accessible name`, path });
+    }
+    if (FORM_CONTROLS.has(node.role) && !named) {
+      violations.push({ rule: 'control-label-missing', message: `${node.role} has no label`, path });
+    }
+    if ((node.role === 'img' || node.role === 'image') && !named) {
+      violations.push({ rule: 'img-alt-missing', message: 'Image has no alt text', path });
+    }
+
+    if (node.role === 'heading') {
+      const level = Number(node.attributes.level);
+      if (Number.isInteger(level)) {
+        if (previousLevel !== undefined && level > previousLevel + 1) {
+          violations.push({
+            rule: 'heading-level-skip',
+            message: `Heading level ${level} follows level ${previousLevel}`,
+            path,
+          });
+        }
+        previousLevel = level;
+      }
+    }
+
+    if (UNIQUE_LANDMARKS.has(node.role) || NAMED_LANDMARKS.has(node.role)) {
+      const key = UNIQUE_LANDMARKS.has(node.role) ? node.role : `${node.role}\u0000${node.name ?? ''}`;
+      const seen = landmarks.get(key) ?? [];
+      if (seen.length > 0) {
+        violations.push({
+          rule: 'landmark-duplicate',
+          message: UNIQUE_LANDMARKS.has(node.role)
+            ? `More than one ${node.role} landmark`
+            : `Another ${label(node)} landmark; give each ${node.role} a distinct name`,
+          path,
+        });
+      }
+      landmarks.set(key, [...seen, path]);
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * Contrast ratio between two opaque colors, from 1 to 21
+ */
+export function contrastRatio(
+  foreground: [number, number, number],
+  background: [number, number, number]
+): number {
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Check sampled text against WCAG AA: 4.5:1, or 3:1 for large text
+ * (24px and up, or 18.66px and up when bold). Text over a background
+ * image is skipped; its contrast is left to the judge.
+ */
+export function checkColorContrast(samples: TextColorSample[]): A11yViolation[] {
+  return samples.flatMap(sample => {
+    if (sample.backgroundImage) {
+      return [];
+    }
+    const large = sample.fontSizePx >= 24 || (sample.fontSizePx >= 18.66 && sample.fontWeight >= 700);
+    const required = large ? 3 : 4.5;
+    const ratio = contrastRatio(sample.color, sample.background);
+    if (ratio >= required) {
+      return [];
+    }
+    return [{
+      rule: 'color-contrast' as const,
+      message: `Contrast ${ratio.toFixed(2)}:1 is below ${required}:1 for "${sample.text}"`,
+      path: sample.path,
+    }];
+  });
+}
+
+/**
+ * Summarise violations for assertion feedback, one per line
+ */
+export function describeViolations(violations: A11yViolation[]): string {
+  return violations.map(v => `[${v.rule}] ${v.path}: ${v.message}`).join('\n');
+}
@@ -0,0 +1,144 @@
+/**
+ * Baseline Store - Test Examples
+ *
+ * Shows the baseline manifest lifecycle and the visual-baselines CLI:
+ * pending screenshots are approved or rejected, orphans are pruned.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createBaselineStore, runVisualBaselines, type BaselineCapture } from './baseline-store.js';
+
+describe('Baseline store', () => {
+  let outputDir: string;
+  let dir: string;
+  let screenshot: string;
+
+  const capture = (viewport: string): BaselineCapture => ({
+    name: 'home',
+    viewport,
+    browser: 'playwright',
+    criteria: 'No layout changes',
+    mask: ['.clock'],
+  });
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-store-'));
+    dir = path.join(outputDir, 'baselines');
+    screenshot = path.join(outputDir, 'shot.png');
+    fs.writeFileSync(screenshot, 'new pixels');
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('keeps one variant per viewport with capture metadata', () => {
+    const store = createBaselineStore(dir);
+
+    store.create(capture('desktop'), screenshot);
+    store.create(capture('mobile'), screenshot);
+
+    expect(store.find('home', 'desktop')).toMatchObject({
+      file: 'home@desktop.png',
+      browser: 'playwright',
+      criteria: 'No layout changes',
+      mask: ['.clock'],
+    });
+    expect(store.find('home', 'mobile')?.file).toBe('home@mobile.png');
+    expect(store.find('home', 'tablet')).toBeUndefined();
+  });
+
+  it('adopts a pre-manifest baseline file', () => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'home.png'), 'old pixels');
+
+    const entry = createBaselineStore(dir).find('home', 'default');
+
+    expect(entry?.file).toBe('home@default.png');
+    expect(fs.existsSync(path.join(dir, 'home.png'))).toBe(false);
+  });
+
+  it('approves and rejects pending screenshots', () => {
+    const store = createBaselineStore(dir);
+    fs.writeFileSync(path.join(outputDir, 'old.png'), 'old pixels');
+    store.create(capture('desktop'), path.join(outputDir, 'old.png'));
+
+    store.addPending({ ...capture('desktop'), reason: 'changed', feedback: 'Header moved' }, screenshot);
+    store.addPending({ ...capture('mobile'), reason: 'new' }, screenshot);
+
+    store.approve('home@desktop');
+    store.reject('home@mobile');
+
+    expect(fs.readFileSync(path.join(dir, 'home@desktop.png'), 'utf-8')).toBe('new pixels');
+    expect(store.find('home', 'mobile')).toBeUndefined();
+    expect(store.manifest().pending).toEqual({});
+    expect(fs.readdirSync(path.join(dir, 'pending'))).toEqual([]);
+  });
+
+  it('prunes files and entries the manifest no longer links', () => {
+    const store = createBaselineStore(dir);
+    store.create(capture('desktop'), screenshot);
+    store.create(capture('mobile'), screenshot);
+    fs.rmSync(path.join(dir, 'home@mobile.png'));
+    fs.writeFileSync(path.join(dir, 'deleted-test@desktop.png'), 'stale');
+
+    expect(store.prune({ dryRun: true })).toHaveLength(2);
+    expect(fs.existsSync(path.join(dir, 'deleted-test@desktop.png'))).toBe(true);
+
+    store.prune();
+
+    expect(Object.keys(store.manifest().baselines)).toEqual(['home@desktop']);
+    expect(fs.readdirSync(dir).sort()).toEqual(['home@desktop.png', 'manifest.json']);
+  });
+});
+
+describe('visual-baselines CLI', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-baselines-'));
+    const screenshot = path.join(outputDir, 'shot.png');
+    fs.writeFileSync(screenshot, 'pixels');
+    const store = createBaselineStore(path.join(outputDir, 'baselines'));
+    for (const viewport of ['desktop', 'mobile']) {
+      store.addPending(
+        { name: 'home', viewport, browser: 'agent-browser', criteria: 'Same', mask: [], reason: 'new' },
+        screenshot
+      );
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('lists pending diffs', async () => {
+    const lines: string[] = [];
+
+    const code = await runVisualBaselines(['list', '--dir', outputDir], line => lines.push(line));
+
+    expect(code).toBe(0);
+    expect(lines).toContain('Pending (2):');
+    expect(lines).toContain('  home@desktop  [new]');
+  });
+
+  it('approves every viewport of a name', async () => {
+    const lines: string[] = [];
+
+    await runVisualBaselines(['approve', 'home', '--dir', outputDir], line => lines.push(line));
+
+    expect(lines).toEqual(['Approved home@desktop', 'Approved home@mobile']);
+    expect(Object.keys(createBaselineStore(path.join(outputDir, 'baselines')).manifest().baselines))
+      .toEqual(['home@desktop', 'home@mobile']);
+  });
+
+  it('fails on unknown keys and commands', async () => {
+    const log = () => {};
+
+    expect(await runVisualBaselines(['reject', 'checkout', '--dir', outputDir], log)).toBe(1);
+    expect(await runVisualBaselines(['rebase'], log)).toBe(1);
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * Baseline Store
+ *
+ * Keeps visual baselines with a manifest describing how each one was
+ * captured, so they can be reviewed and reproduced:
+ *
+ *   baselines/
+ *     manifest.json                 Metadata for every baseline and pending diff
+ *     <name>@<viewport>.png         Approved baselines, one variant per viewport
+ *     pending/<name>@<viewport>.png Screenshots awaiting approval
+ *     pending/<name>@<viewport>-diff.png
+ *
+ * Failed comparisons (and, in strict mode, missing baselines) are recorded
+ * as pending. Approve or reject them with the visual-baselines CLI.
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline/promises';
+import type { MaskTarget } from './visual-testing.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How a baseline was captured */
+export interface BaselineCapture {
+  /** Assertion name passed to assertBaseline */
+  name: string;
+
+  /** Viewport name (or 'default' when the session never resized) */
+  viewport: string;
+
+  /** Browser driver that took the screenshot */
+  browser: string;
+
+  /** Criteria the baseline is judged against */
+  criteria: string;
+
+  /** Element the screenshot is cropped to */
+  selector?: string;
+
+  /** Masks applied before comparison */
+  mask: MaskTarget[];
+}
+
+export interface BaselineEntry extends BaselineCapture {
+  /** Image file, relative to the baselines directory */
+  file: string;
+
+  /** Git commit the baseline was created or approved at */
+  commit?: string;
+
+  /** When the baseline was created or last approved (ISO 8601) */
+  createdAt: string;
+}
+
+export interface PendingBaseline extends BaselineCapture {
+  /** 'new' when no baseline exists (strict mode), 'changed' when a comparison failed */
+  reason: 'new' | 'changed';
+
+  /** Screenshot awaiting approval, relative to the baselines directory */
+  file: string;
+
+  /** Diff heatmap, relative to the baselines directory */
+  diffFile?: string;
+
+  /** Judge feedback explaining the failure */
+  feedback?: string;
+
+  /** When the screenshot was taken (ISO 8601) */
+  createdAt: string;
+}
+
+export interface BaselineManifest {
+  version: 1;
+
+  /** Approved baselines keyed by `<name>@<viewport>` */
+  baselines: Record<string, BaselineEntry>;
+
+  /** Screenshots awaiting review, keyed like baselines */
+  pending: Record<string, PendingBaseline>;
+}
+
+export interface BaselineStore {
+  /** Directory holding the manifest and images */
+  dir: string;
+
+  manifest(): BaselineManifest;
+
+  /** Approved baseline for a name and viewport */
+  find(name: string, viewport: string): BaselineEntry | undefined;
+
+  /** Absolute path of a file recorded in the manifest */
+  resolve(file: string): string;
+
+  /** Store a screenshot as the approved baseline */
+  create(capture: BaselineCapture, screenshotPath: string): BaselineEntry;
+
+  /** Change recorded metadata (e.g. masks added since creation) */
+  update(key: string, changes: Partial<BaselineCapture>): void;
+
+  /** Record a screenshot for review */
+  addPending(
+    pending: Omit<PendingBaseline, 'file' | 'diffFile' | 'createdAt'>,
+    screenshotPath: string,
+    diffPath?: string
+  ): PendingBaseline;
+
+  /** Drop a pending entry without touching the baseline */
+  clearPending(key: string): void;
+
+  /** Promote a pending screenshot to the approved baseline */
+  approve(key: string): BaselineEntry;
+
+  /** Discard a pending screenshot */
+  reject(key: string): void;
+
+  /** Remove image files no manifest entry refers to, and entries whose image is gone */
+  prune(options?: { dryRun?: boolean }): string[];
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+const MANIFEST_FILE = 'manifest.json';
+const PENDING_DIR = 'pending';
+
+/**
+ * Manifest key for a baseline variant
+ */
+export function baselineKey(name: string, viewport: string): string {
+  return `${name}@${viewport}`;
+}
+
+/**
+ * File-system-safe form of a key
+ */
+export function baselineFileStem(key: string): string {
+  return key.replace(/[^\w@.-]+/g, '_');
+}
+
+/**
+ * Current git commit, if the working directory is a repository
+ */
+export function currentCommit(): string | undefined {
+  try {
+    return execFileSync('git', ['rev-parse', 'HEAD'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Open (or start) the baseline store in a directory
+ */
+export function createBaselineStore(dir: string): BaselineStore {
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+
+  const load = (): BaselineManifest => {
+    if (!fs.existsSync(manifestPath)) {
+      return { version: 1, baselines: {}, pending: {} };
+    }
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as BaselineManifest;
+    return { version: 1, baselines: manifest.baselines ?? {}, pending: manifest.pending ?? {} };
+  };
+
+  const save = (manifest: BaselineManifest): void => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  };
+
+  const resolve = (file: string): string => path.join(dir, file);
+
+  const removeFile = (file: string | undefined): void => {
+    if (file) {
+      fs.rmSync(resolve(file), { force: true });
+    }
+  };
+
+  const store: BaselineStore = {
+    dir,
+    manifest: load,
+    resolve,
+
+    find(name, viewport) {
+      const manifest = load();
+      const key = baselineKey(name, viewport);
+      if (manifest.baselines[key]) {
+        return manifest.baselines[key];
+      }
+
+      // Adopt a pre-manifest baselines/<name>.png as this viewport's variant
+      const legacy = path.join(dir, `${name}.png`);
+      if (fs.existsSync(legacy) && !Object.values(manifest.baselines).some(e => e.name === name)) {
+        const entry = store.create(
+          { name, viewport, browser: 'unknown', criteria: '', mask: [] },
+          legacy
+        );
+        fs.rmSync(legacy);
+        return entry;
+      }
+      return undefined;
+    },
+
+    create(capture, screenshotPath) {
+      const manifest = load();
+      const key = baselineKey(capture.name, capture.viewport);
+      const file = `${baselineFileStem(key)}.png`;
+
+      fs.mkdirSync(dir, { recursive: true });
+      fs.copyFileSync(screenshotPath, resolve(file));
+
+      const entry: BaselineEntry = {
+        ...capture,
+        file,
+        commit: currentCommit(),
+        createdAt: new Date().toISOString(),
+      };
+      manifest.baselines[key] = entry;
+      save(manifest);
+      return entry;
+    },
+
+    update(key, changes) {
+      const manifest = load();
+      const entry = manifest.baselines[key];
+      if (!entry) {
+        throw new Error(`No baseline for ${key}`);
+      }
+      manifest.baselines[key] = { ...entry, ...changes };
+      save(manifest);
+    },
+
+    addPending(pending, screenshotPath, diffPath) {
+      const manifest = load();
+      const key = baselineKey(pending.name, pending.viewport);
+      const stem = path.join(PENDING_DIR, baselineFileStem(key));
+
+      fs.mkdirSync(resolve(PENDING_DIR), { recursive: true });
+      fs.copyFileSync(screenshotPath, resolve(`${stem}.png`));
+      const hasDiff = diffPath !== undefined && fs.existsSync(diffPath);
+      if (hasDiff) {
+        fs.copyFileSync(diffPath, resolve(`${stem}-diff.png`));
+      }
+
+      const entry: PendingBaseline = {
+        ...pending,
+        file: `${stem}.png`,
+        diffFile: hasDiff ? `${stem}-diff.png` : undefined,
+        createdAt: new Date().toISOString(),
+      };
+      manifest.pending[key] = entry;
+      save(manifest);
+      return entry;
+    },
+
+    clearPending(key) {
+      const manifest = load();
+      const pending = manifest.pending[key];
+      if (!pending) {
+        return;
+      }
+      removeFile(pending.file);
+      removeFile(pending.diffFile);
+      delete manifest.pending[key];
+      save(manifest);
+    },
+
+    approve(key) {
+      const pending = load().pending[key];
+      if (!pending) {
+        throw new Error(`Nothing pending for ${key}`);
+      }
+      const { reason, file, diffFile, feedback, createdAt, ...capture } = pending;
+      const entry = store.create(capture, resolve(file));
+      store.clearPending(key);
+      return entry;
+    },
+
+    reject(key) {
+      if (!load().pending[key]) {
+        throw new Error(`Nothing pending for ${key}`);
+      }
+      store.clearPending(key);
+    },
+
+    prune(options = {}) {
+      const manifest = load();
+      const removed: string[] = [];
+
+      for (const [key, entry] of Object.entries(manifest.baselines)) {
+        if (!fs.existsSync(resolve(entry.file))) {
+          removed.push(`manifest entry ${key} (missing ${entry.file})`);
+          delete manifest.baselines[key];
+        }
+      }
+      for (const [key, entry] of Object.entries(manifest.pending)) {
+        if (!fs.existsSync(resolve(entry.file))) {
+          removed.push(`pending entry ${key} (missing ${entry.file})`);
+          delete manifest.pending[key];
+        }
+      }
+
+      const referenced = new Set<string>();
+      for (const entry of Object.values(manifest.baselines)) {
+        referenced.add(entry.file);
+      }
+      for (const entry of Object.values(manifest.pending)) {
+        referenced.add(entry.file);
+        if (entry.diffFile) referenced.add(entry.diffFile);
+      }
+
+      for (const sub of ['', PENDING_DIR]) {
+        if (!fs.existsSync(resolve(sub))) continue;
+        for (const name of fs.readdirSync(resolve(sub))) {
+          const file = sub ? path.join(sub, name) : name;
+          if (name.endsWith('.png') && !referenced.has(file)) {
+            removed.push(file);
+            if (!options.dryRun) removeFile(file);
+          }
+        }
+      }
+
+      if (!options.dryRun) {
+        save(manifest);
+      }
+      return removed;
+    },
+  };
+
+  return store;
+}
+
+// =============================================================================
+// CLI (visual-baselines)
+// =============================================================================
+
+const USAGE = `Usage: visual-baselines <command> [options]
+
+Commands:
+  list                          Show baselines and pending diffs
+  review                        Approve or reject pending diffs one by one
+  approve <key>... | --all      Accept pending screenshots as the new baselines
+  reject <key>... | --all       Discard pending screenshots
+  prune [--dry-run]             Remove images and entries the manifest no longer links
+
+Keys are <name>@<viewport>; a bare <name> matches every viewport.
+
+Options:
+  --dir <path>                  Output directory (default: ./tmp/visual-testing)`;
+
+/**
+ * Expand CLI selectors (key, bare name or --all) into pending keys
+ */
+function selectPending(store: BaselineStore, selectors: string[], all: boolean): string[] {
+  const pending = store.manifest().pending;
+  if (all) {
+    return Object.keys(pending);
+  }
+
+  const keys: string[] = [];
+  for (const selector of selectors) {
+    const matches = Object.keys(pending).filter(
+      key => key === selector || pending[key].name === selector
+    );
+    if (matches.length === 0) {
+      throw new Error(`Nothing pending for ${selector}`);
+    }
+    keys.push(...matches);
+  }
+  return keys;
+}
+
+function list(store: BaselineStore, log: (line: string) => void): void {
+  const { baselines, pending } = store.manifest();
+
+  log(`Baselines (${Object.keys(baselines).length}):`);
+  for (const [key, entry] of Object.entries(baselines)) {
+    const commit = entry.commit ? entry.commit.slice(0, 7) : 'no commit';
+    const masks = entry.mask.length > 0 ? `, ${entry.mask.length} mask(s)` : '';
+    log(`  ${key}  ${entry.browser}, ${commit}, ${entry.createdAt}${masks}`);
+  }
+
+  log(`Pending (${Object.keys(pending).length}):`);
+  for (const [key, entry] of Object.entries(pending)) {
+    log(`  ${key}  [${entry.reason}] ${entry.feedback ?? ''}`.trimEnd());
+    log(`    current: ${store.resolve(entry.file)}`);
+    if (entry.diffFile) {
+      log(`    diff:    ${store.resolve(entry.diffFile)}`);
+    }
+  }
+}
+
+async function review(store: BaselineStore, log: (line: string) => void): Promise<void> {
+  const pending = store.manifest().pending;
+  if (Object.keys(pending).length === 0) {
+    log('Nothing pending.');
+    return;
+  }
+
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    for (const [key, entry] of Object.entries(pending)) {
+      log(`\n${key} [${entry.reason}]`);
+      if (entry.feedback) log(`  ${entry.feedback}`);
+      log(`  current: ${store.resolve(entry.file)}`);
+      if (entry.diffFile) log(`  diff:    ${store.resolve(entry.diffFile)}`);
+
+      const answer = (await prompt.question('  [a]pprove, [r]eject, [s]kip, [q]uit? ')).trim().toLowerCase();
+      if (answer === 'a') {
+        store.approve(key);
+        log('  approved');
+      } else if (answer === 'r') {
+        store.reject(key);
+        log('  rejected');
+      } else if (answer === 'q') {
+        break;
+      }
+    }
+  } finally {
+    prompt.close();
+  }
+}
+
+/**
+ * Run the CLI with the given arguments; returns the exit code
+ */
+export async function runVisualBaselines(
+  argv: string[],
+  log: (line: string) => void = console.log
+): Promise<number> {
+  const args = [...argv];
+  let outputDir = './tmp/visual-testing';
+  const dirIndex = args.indexOf('--dir');
+  if (dirIndex !== -1) {
+    outputDir = args[dirIndex + 1];
+    args.splice(dirIndex, 2);
+  }
+
+  const flags = new Set(args.filter(arg => arg.startsWith('--')));
+  const [command, ...rest] = args.filter(arg => !arg.startsWith('--'));
+  const store = createBaselineStore(path.join(outputDir, 'baselines'));
+
+  try {
+    switch (command) {
+      case 'list':
+        list(store, log);
+        return 0;
+      case 'review':
+        await review(store, log);
+        return 0;
+      case 'approve':
+      case 'reject': {
+        const keys = selectPending(store, rest, flags.has('--all'));
+        if (keys.length === 0) {
+          log('Nothing pending.');
+          return 0;
+        }
+        for (const key of keys) {
+          if (command === 'approve') store.approve(key);
+          else store.reject(key);
+          log(`${command === 'approve' ? 'Approved' : 'Rejected'} ${key}`);
+        }
+        return 0;
+      }
+      case 'prune': {
+        const dryRun = flags.has('--dry-run');
+        const removed = store.prune({ dryRun });
+        for (const item of removed) {
+          log(`${dryRun ? 'Would remove' : 'Removed'} ${item}`);
+        }
+        log(removed.length === 0 ? 'Nothing to prune.' : `${removed.length} item(s)`);
+        return 0;
+      }
+      default:
+        log(USAGE);
+        return command === undefined || command === 'help' ? 0 : 1;
+    }
+  } catch (error) {
+    log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
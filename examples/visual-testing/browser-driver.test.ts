@@ -0,0 +1,178 @@
+/**
+ * Browser Drivers - Test Examples
+ *
+ * Shows how VisualTestContext runs on a pluggable driver, and that the
+ * agent-browser driver passes arguments without a shell. Uses a fake CLI
+ * and a fake Playwright browser, so no real browser is needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  agentBrowserDriver,
+  playwrightDriver,
+  resolveBrowserDriver,
+  type PlaywrightBrowserType,
+} from './browser-driver.js';
+import { fakeDriver } from './fake-driver.js';
+import { VisualTestContext } from './visual-testing.js';
+
+// =============================================================================
+// agent-browser CLI
+// =============================================================================
+
+describe('agent-browser driver', () => {
+  let dir: string;
+  let command: string;
+  let log: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'browser-driver-'));
+    log = path.join(dir, 'calls.log');
+    command = path.join(dir, 'fake-agent-browser');
+    fs.writeFileSync(
+      command,
+      `#!/usr/bin/env node
+const args = process.argv.slice(2);
+require('fs').appendFileSync(${JSON.stringify(log)}, JSON.stringify(args) + '\\n');
+if (args[0] === 'accessibility') process.stdout.write('button "Save"');
+if (args[0] === 'eval') process.stdout.write(JSON.stringify(JSON.stringify([{ x: 1, y: 2, width: 3, height: 4 }])));
+if (args[0] === 'click') { process.stderr.write('no element'); process.exit(1); }
+`,
+      { mode: 0o755 }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const calls = (): string[][] =>
+    fs.readFileSync(log, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+
+  it('passes quotes and shell syntax through untouched', async () => {
+    const driver = agentBrowserDriver({ command });
+    const text = `It's "quoted" $(touch ${path.join(dir, 'pwned')}) \`and\` back\\slashed`;
+
+    await driver.type('input[name="q"]', text);
+
+    expect(calls()).toEqual([['type', 'input[name="q"]', text]]);
+    expect(fs.existsSync(path.join(dir, 'pwned'))).toBe(false);
+  });
+
+  it('runs every command in its named session', async () => {
+    const driver = agentBrowserDriver({ command, session: 'checkout' });
+
+    await driver.open('http://localhost:3000/');
+    await driver.pressKey('Tab');
+
+    expect(calls()).toEqual([
+      ['--session', 'checkout', 'open', 'http://localhost:3000/'],
+      ['--session', 'checkout', 'key', 'Tab'],
+    ]);
+  });
+
+  it('returns command output and surfaces failures', async () => {
+    const driver = agentBrowserDriver({ command });
+
+    await expect(driver.accessibilityTree()).resolves.toBe('button "Save"');
+    await expect(driver.boundingBoxes('.ad')).resolves.toEqual([{ x: 1, y: 2, width: 3, height: 4 }]);
+    await expect(driver.click('#missing')).rejects.toThrow('no element');
+  });
+});
+
+// =============================================================================
+// Playwright
+// =============================================================================
+
+describe('Playwright driver', () => {
+  it('maps driver calls onto a Playwright page', async () => {
+    const calls: unknown[][] = [];
+    const locator = (selector: string) => ({
+      click: async () => void calls.push(['click', selector]),
+      pressSequentially: async (text: string) => void calls.push(['type', selector, text]),
+      hover: async () => void calls.push(['hover', selector]),
+      focus: async () => void calls.push(['focus', selector]),
+      waitFor: async () => void calls.push(['waitFor', selector]),
+      ariaSnapshot: async () => '- heading "Dashboard"',
+    });
+    const browserType: PlaywrightBrowserType = {
+      launch: async options => {
+        calls.push(['launch', options]);
+        return {
+          newPage: async () => ({
+            goto: async (url: string) => void calls.push(['goto', url]),
+            screenshot: async (options: { path: string }) => void calls.push(['screenshot', options.path]),
+            setViewportSize: async (size: { width: number; height: number }) =>
+              void calls.push(['viewport', size.width, size.height]),
+            locator,
+            keyboard: { press: async (key: string) => void calls.push(['key', key]) },
+            evaluate: async () => JSON.stringify([{ x: 0, y: 0, width: 10, height: 10 }]),
+          }),
+          close: async () => void calls.push(['close']),
+        };
+      },
+    };
+
+    const driver = playwrightDriver({ browserType });
+    await driver.open('http://localhost:3000/');
+    await driver.open('http://localhost:3000/pricing');
+    await driver.setViewport(375, 812);
+    await driver.type('#search', 'it\'s "here"');
+    await driver.pressKey('Enter');
+    const tree = await driver.accessibilityTree();
+    const boxes = await driver.boundingBoxes('.ad');
+    await driver.close();
+
+    expect(tree).toBe('- heading "Dashboard"');
+    expect(boxes).toEqual([{ x: 0, y: 0, width: 10, height: 10 }]);
+    expect(calls).toEqual([
+      ['launch', { headless: true }],
+      ['goto', 'http://localhost:3000/'],
+      ['goto', 'http://localhost:3000/pricing'],
+      ['viewport', 375, 812],
+      ['type', '#search', 'it\'s "here"'],
+      ['key', 'Enter'],
+      ['close'],
+    ]);
+  });
+
+  it('requires open() before page actions', async () => {
+    await expect(playwrightDriver().click('#a')).rejects.toThrow('call open() first');
+  });
+});
+
+// =============================================================================
+// Selection and VisualTestContext
+// =============================================================================
+
+describe('Driver selection', () => {
+  it('reads RALPH_BROWSER_DRIVER', () => {
+    expect(resolveBrowserDriver(undefined, 1000, {}).name).toBe('agent-browser');
+    expect(resolveBrowserDriver(undefined, 1000, { RALPH_BROWSER_DRIVER: 'playwright' }).name).toBe('playwright');
+    expect(() => resolveBrowserDriver(undefined, 1000, { RALPH_BROWSER_DRIVER: 'lynx' })).toThrow('lynx');
+  });
+
+  it('routes VisualTestContext through the configured driver', async () => {
+    const calls: string[] = [];
+    const driver = fakeDriver({ calls });
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'browser-driver-ctx-'));
+
+    try {
+      const session = new VisualTestContext({ baseUrl: 'http://app.test', outputDir, driver });
+      await session.open('/login');
+      await session.type('#email', 'a"b@example.com');
+      await session.close();
+
+      expect(calls).toEqual([
+        'open http://app.test/login',
+        'type #email a"b@example.com',
+        'close',
+      ]);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,498 @@
+/**
+ * Browser Drivers for Visual Testing
+ *
+ * VisualTestContext talks to the browser through a BrowserDriver, so the
+ * same assertions run on either backend:
+ *
+ *   agent-browser  The agent-browser CLI (default). Arguments are passed as
+ *                  an argv array, never through a shell, so selectors and
+ *                  text may contain quotes or `$(...)` safely.
+ *   playwright     In-process Chromium via Playwright. Real async calls,
+ *                  headless by default, suited to Linux CI.
+ *
+ * agent-browser keeps one global browser unless a named session is given;
+ * drivers with different session names are isolated and can run at the
+ * same time. Every Playwright driver launches its own browser, so
+ * Playwright drivers are always isolated.
+ *
+ * Environment:
+ *   RALPH_BROWSER_DRIVER  agent-browser | playwright (default: agent-browser)
+ *
+ * Usage:
+ *   import { chromium } from 'playwright';
+ *   const session = await createVisualTestSession({
+ *     baseUrl: 'http://localhost:3000',
+ *     driver: playwrightDriver({ browserType: chromium }),
+ *   });
+ */
+
+import { execFile } from 'child_process';
+import type { Rect } from './pixel-diff.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BrowserDriver {
+  /** Backend name, for logs and reports */
+  name: string;
+
+  /** Start the browser and load a URL */
+  open(url: string): Promise<void>;
+
+  /** Load a URL in the open browser */
+  navigate(url: string): Promise<void>;
+
+  /** Save a PNG screenshot of the viewport */
+  screenshot(filePath: string): Promise<void>;
+
+  setViewport(width: number, height: number): Promise<void>;
+
+  click(selector: string): Promise<void>;
+
+  /** Type text into an element, keystroke by keystroke */
+  type(selector: string, text: string): Promise<void>;
+
+  pressKey(key: string): Promise<void>;
+
+  hover(selector: string): Promise<void>;
+
+  focus(selector: string): Promise<void>;
+
+  /** Wait for a selector to appear */
+  waitFor(selector: string, timeout?: number): Promise<void>;
+
+  /** Text rendering of the page's accessibility tree */
+  accessibilityTree(): Promise<string>;
+
+  /**
+   * Bounds of every matching element in screenshot pixels (CSS pixels
+   * scaled by devicePixelRatio); empty if nothing matches
+   */
+  boundingBoxes(selector: string): Promise<Rect[]>;
+
+  /**
+   * The element that has keyboard focus (inside shadow roots too), or
+   * undefined when focus is on the page itself. When a selector is given,
+   * `matches` reports whether the focused element matches it.
+   */
+  focusedElement(selector?: string): Promise<FocusedElement | undefined>;
+
+  /**
+   * Computed text and background colors of visible text on the page, for
+   * contrast checks. Backgrounds are composited up the ancestor chain
+   * onto white.
+   */
+  textColors(): Promise<TextColorSample[]>;
+
+  close(): Promise<void>;
+}
+
+export interface FocusedElement {
+  /** Lowercase tag name, e.g. 'button' */
+  tag: string;
+
+  /** Short human-readable identity, e.g. 'button#save.primary "Save changes"' */
+  description: string;
+
+  /** Bounds in screenshot pixels */
+  rect: Rect;
+
+  /** Whether the element matches the selector passed to focusedElement */
+  matches?: boolean;
+}
+
+export interface TextColorSample {
+  /** CSS path of the element holding the text, e.g. 'main > form#signup > p.hint' */
+  path: string;
+
+  /** The text, shortened to 40 characters */
+  text: string;
+
+  /** Opaque text color as RGB */
+  color: [number, number, number];
+
+  /** Opaque background behind the text as RGB */
+  background: [number, number, number];
+
+  /**
+   * An image or gradient sits behind the text, so `background` is only
+   * the color under it and the measured contrast can't be trusted
+   */
+  backgroundImage?: boolean;
+
+  fontSizePx: number;
+
+  fontWeight: number;
+}
+
+export interface AgentBrowserOptions {
+  /** Timeout per command in ms (default: 30000) */
+  timeout?: number;
+
+  /** Executable to run (default: agent-browser) */
+  command?: string;
+
+  /** Named browser session (agent-browser --session); default: the global session */
+  session?: string;
+}
+
+/**
+ * Minimal structural view of Playwright's API (1.49+), so this module
+ * type-checks without playwright installed. Pass `chromium` from 'playwright'.
+ */
+export interface PlaywrightBrowserType {
+  launch(options?: { headless?: boolean }): Promise<PlaywrightBrowser>;
+}
+
+export interface PlaywrightBrowser {
+  newPage(options?: { viewport?: { width: number; height: number } }): Promise<PlaywrightPage>;
+  close(): Promise<void>;
+}
+
+export interface PlaywrightLocator {
+  click(options?: { timeout?: number }): Promise<void>;
+  pressSequentially(text: string, options?: { timeout?: number }): Promise<void>;
+  hover(options?: { timeout?: number }): Promise<void>;
+  focus(options?: { timeout?: number }): Promise<void>;
+  waitFor(options?: { state?: 'attached' | 'visible'; timeout?: number }): Promise<void>;
+  ariaSnapshot(options?: { timeout?: number }): Promise<string>;
+}
+
+export interface PlaywrightPage {
+  goto(url: string, options?: { timeout?: number; waitUntil?: 'load' | 'networkidle' }): Promise<unknown>;
+  screenshot(options: { path: string; timeout?: number }): Promise<unknown>;
+  setViewportSize(size: { width: number; height: number }): Promise<void>;
+  locator(selector: string): PlaywrightLocator;
+  keyboard: { press(key: string): Promise<void> };
+  evaluate(expression: string): Promise<unknown>;
+}
+
+export interface PlaywrightDriverOptions {
+  /** Browser type from playwright, e.g. `chromium` (default: imported from 'playwright') */
+  browserType?: PlaywrightBrowserType;
+
+  /** Run without a visible window (default: true) */
+  headless?: boolean;
+
+  /** Timeout per action in ms (default: 30000) */
+  timeout?: number;
+
+  /** Initial viewport (default: 1280x720) */
+  viewport?: { width: number; height: number };
+}
+
+// =============================================================================
+// Shared Utilities
+// =============================================================================
+
+/**
+ * Page script returning the JSON-encoded bounds of all elements matching
+ * a selector, in device pixels. The selector is embedded as a JSON literal.
+ */
+function boundingBoxesScript(selector: string): string {
+  return `(() => {
+    const d = window.devicePixelRatio || 1;
+    return JSON.stringify(Array.from(document.querySelectorAll(${JSON.stringify(selector)}), el => {
+      const r = el.getBoundingClientRect();
+      return { x: r.x * d, y: r.y * d, width: r.width * d, height: r.height * d };
+    }));
+  })()`;
+}
+
+/**
+ * Page script returning the JSON-encoded focused element (see
+ * FocusedElement), or null when nothing but the page has focus
+ */
+function focusedElementScript(selector?: string): string {
+  return `(() => {
+    let el = document.activeElement;
+    while (el && el.shadowRoot && el.shadowRoot.activeElement) el = el.shadowRoot.activeElement;
+    if (!el || el === document.body || el === document.documentElement) return JSON.stringify(null);
+    const d = window.devicePixelRatio || 1;
+    const r = el.getBoundingClientRect();
+    const tag = el.tagName.toLowerCase();
+    const classes = Array.from(el.classList).slice(0, 2).map(c => '.' + c).join('');
+    const name = (el.getAttribute('aria-label') || el.textContent || el.getAttribute('placeholder') || '')
+      .replace(/\\s+/g, ' ').trim().slice(0, 40);
+    const selector = ${JSON.stringify(selector ?? null)};
+    return JSON.stringify({
+      tag,
+      description: tag + (el.id ? '#' + el.id : '') + classes + (name ? ' "' + name + '"' : ''),
+      rect: { x: r.x * d, y: r.y * d, width: r.width * d, height: r.height * d },
+      matches: selector === null ? undefined : el.matches(selector),
+    });
+  })()`;
+}
+
+/**
+ * Page script returning JSON-encoded TextColorSamples for up to `limit`
+ * visible elements with their own text
+ */
+function textColorsScript(limit: number = 300): string {
+  return `(() => {
+    const rgba = value => {
+      const parts = (value.match(/[\\d.]+/g) || []).map(Number);
+      return value.startsWith('rgb') && parts.length >= 3
+        ? [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1]
+        : null;
+    };
+    const over = (top, bottom) => [0, 1, 2].map(i => Math.round(top[i] * top[3] + bottom[i] * (1 - top[3])));
+    const segment = el => {
+      const tag = el.tagName.toLowerCase();
+      return tag + (el.id ? '#' + el.id : '') + Array.from(el.classList).slice(0, 2).map(c => '.' + c).join('');
+    };
+    const samples = [];
+    for (const el of document.body ? document.body.querySelectorAll('*') : []) {
+      if (samples.length >= ${limit}) break;
+      const own = Array.from(el.childNodes)
+        .filter(n => n.nodeType === 3)
+        .map(n => n.textContent)
+        .join(' ')
+        .replace(/\\s+/g, ' ')
+        .trim();
+      if (!own || ['SCRIPT', 'STYLE', 'NOSCRIPT'].includes(el.tagName)) continue;
+      const style = getComputedStyle(el);
+      const r = el.getBoundingClientRect();
+      if (style.visibility !== 'visible' || Number(style.opacity) === 0 || r.width === 0 || r.height === 0) continue;
+      const layers = [];
+      let backgroundImage = false;
+      for (let node = el; node; node = node.parentElement) {
+        const nodeStyle = getComputedStyle(node);
+        if (nodeStyle.backgroundImage && nodeStyle.backgroundImage !== 'none') {
+          backgroundImage = true;
+          break;
+        }
+        const bg = rgba(nodeStyle.backgroundColor);
+        if (bg && bg[3] > 0) layers.push(bg);
+        if (bg && bg[3] >= 1) break;
+      }
+      const background = layers.reduceRight((below, layer) => over(layer, below.concat(1)), [255, 255, 255]);
+      const fg = rgba(style.color);
+      if (!fg) continue;
+      const path = [];
+      for (let node = el; node && node !== document.body; node = node.parentElement) path.unshift(segment(node));
+      samples.push({
+        path: path.join(' > '),
+        text: own.slice(0, 40),
+        color: over(fg, background.concat(1)),
+        background,
+        ...(backgroundImage && { backgroundImage }),
+        fontSizePx: parseFloat(style.fontSize),
+        fontWeight: Number(style.fontWeight) || (style.fontWeight === 'bold' ? 700 : 400),
+      });
+    }
+    return JSON.stringify(samples);
+  })()`;
+}
+
+/**
+ * Parse evaluate output that may be JSON-quoted one or more times
+ */
+function parseEvaluated<T>(output: unknown): T {
+  let value = output;
+  while (typeof value === 'string') {
+    value = JSON.parse(value);
+  }
+  return value as T;
+}
+
+// =============================================================================
+// agent-browser CLI
+// =============================================================================
+
+/**
+ * Drive the agent-browser CLI. Each call runs `agent-browser <args...>`
+ * with arguments passed directly to the process (no shell).
+ */
+export function agentBrowserDriver(options: AgentBrowserOptions = {}): BrowserDriver {
+  const command = options.command || 'agent-browser';
+  const defaultTimeout = options.timeout || 30000;
+
+  const sessionArgs = options.session ? ['--session', options.session] : [];
+
+  const run = (args: string[], timeout: number = defaultTimeout): Promise<string> =>
+    new Promise((resolve, reject) => {
+      execFile(command, [...sessionArgs, ...args], { timeout, encoding: 'utf-8' }, (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`${command} ${args[0]} failed: ${stderr || error.message}`));
+        } else {
+          resolve(stdout);
+        }
+      });
+    });
+
+  return {
+    name: 'agent-browser',
+    async open(url) {
+      await run(['open', url]);
+    },
+    async navigate(url) {
+      await run(['navigate', url]);
+    },
+    async screenshot(filePath) {
+      await run(['screenshot', filePath]);
+    },
+    async setViewport(width, height) {
+      await run(['resize', String(width), String(height)]);
+    },
+    async click(selector) {
+      await run(['click', selector]);
+    },
+    async type(selector, text) {
+      await run(['type', selector, text]);
+    },
+    async pressKey(key) {
+      await run(['key', key]);
+    },
+    async hover(selector) {
+      await run(['hover', selector]);
+    },
+    async focus(selector) {
+      await run(['focus', selector]);
+    },
+    async waitFor(selector, timeout) {
+      await run(['wait', selector], timeout || defaultTimeout);
+    },
+    accessibilityTree() {
+      return run(['accessibility']);
+    },
+    async boundingBoxes(selector) {
+      return parseEvaluated<Rect[]>((await run(['eval', boundingBoxesScript(selector)])).trim());
+    },
+    async focusedElement(selector) {
+      const output = (await run(['eval', focusedElementScript(selector)])).trim();
+      return parseEvaluated<FocusedElement | null>(output) ?? undefined;
+    },
+    async textColors() {
+      return parseEvaluated<TextColorSample[]>((await run(['eval', textColorsScript()])).trim());
+    },
+    async close() {
+      await run(['close']);
+    },
+  };
+}
+
+// =============================================================================
+// Playwright
+// =============================================================================
+
+/**
+ * Load playwright lazily; it is an optional dependency
+ */
+async function importPlaywrightChromium(): Promise<PlaywrightBrowserType> {
+  // Indirect specifier keeps TypeScript from requiring the package at build time
+  const specifier = 'playwright';
+  try {
+    const playwright = (await import(specifier)) as { chromium: PlaywrightBrowserType };
+    return playwright.chromium;
+  } catch {
+    throw new Error(
+      'The playwright driver needs the playwright package: npm install -D playwright && npx playwright install chromium'
+    );
+  }
+}
+
+/**
+ * Drive an in-process browser through Playwright
+ */
+export function playwrightDriver(options: PlaywrightDriverOptions = {}): BrowserDriver {
+  const timeout = options.timeout || 30000;
+  let browser: PlaywrightBrowser | undefined;
+  let page: PlaywrightPage | undefined;
+
+  const currentPage = (): PlaywrightPage => {
+    if (!page) {
+      throw new Error('Playwright driver has no open page; call open() first');
+    }
+    return page;
+  };
+
+  return {
+    name: 'playwright',
+    async open(url) {
+      if (!page) {
+        // Opening again reuses the browser, like agent-browser's open
+        const browserType = options.browserType ?? (await importPlaywrightChromium());
+        browser = await browserType.launch({ headless: options.headless ?? true });
+        page = await browser.newPage({ viewport: options.viewport ?? { width: 1280, height: 720 } });
+      }
+      await page.goto(url, { timeout, waitUntil: 'load' });
+    },
+    async navigate(url) {
+      await currentPage().goto(url, { timeout, waitUntil: 'load' });
+    },
+    async screenshot(filePath) {
+      await currentPage().screenshot({ path: filePath, timeout });
+    },
+    async setViewport(width, height) {
+      await currentPage().setViewportSize({ width, height });
+    },
+    async click(selector) {
+      await currentPage().locator(selector).click({ timeout });
+    },
+    async type(selector, text) {
+      await currentPage().locator(selector).pressSequentially(text, { timeout });
+    },
+    async pressKey(key) {
+      await currentPage().keyboard.press(key);
+    },
+    async hover(selector) {
+      await currentPage().locator(selector).hover({ timeout });
+    },
+    async focus(selector) {
+      await currentPage().locator(selector).focus({ timeout });
+    },
+    async waitFor(selector, waitTimeout) {
+      await currentPage().locator(selector).waitFor({ state: 'visible', timeout: waitTimeout || timeout });
+    },
+    accessibilityTree() {
+      return currentPage().locator('body').ariaSnapshot({ timeout });
+    },
+    async boundingBoxes(selector) {
+      return parseEvaluated<Rect[]>(await currentPage().evaluate(boundingBoxesScript(selector)));
+    },
+    async focusedElement(selector) {
+      const output = await currentPage().evaluate(focusedElementScript(selector));
+      return parseEvaluated<FocusedElement | null>(output) ?? undefined;
+    },
+    async textColors() {
+      return parseEvaluated<TextColorSample[]>(await currentPage().evaluate(textColorsScript()));
+    },
+    async close() {
+      await browser?.close();
+      browser = undefined;
+      page = undefined;
+    },
+  };
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+/**
+ * Pick a driver: explicit, then RALPH_BROWSER_DRIVER, then agent-browser.
+ * The session name isolates agent-browser drivers from each other.
+ */
+export function resolveBrowserDriver(
+  explicit: BrowserDriver | undefined,
+  timeout: number = 30000,
+  env: Record<string, string | undefined> = process.env,
+  session?: string
+): BrowserDriver {
+  if (explicit) {
+    return explicit;
+  }
+
+  switch (env.RALPH_BROWSER_DRIVER) {
+    case undefined:
+    case '':
+    case 'agent-browser':
+      return agentBrowserDriver({ timeout, session });
+    case 'playwright':
+      return playwrightDriver({ timeout });
+    default:
+      throw new Error(`Unknown RALPH_BROWSER_DRIVER: ${env.RALPH_BROWSER_DRIVER}`);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Fake Browser Driver
+ *
+ * In-memory BrowserDriver for tests: every action resolves at once, the
+ * page is a blank white image, and the accessibility tree, element boxes,
+ * focus and text colors are empty. Each test overrides only the methods
+ * its case needs:
+ *
+ *   const calls: string[] = [];
+ *   const driver = fakeDriver({
+ *     calls,
+ *     accessibilityTree: async () => '- button "Save"',
+ *   });
+ */
+
+import * as fs from 'fs';
+import type { BrowserDriver } from './browser-driver.js';
+import { encodePng, type RgbaImage } from './pixel-diff.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FakeDriverOptions extends Partial<BrowserDriver> {
+  /** Receives one 'method arg...' line per action, e.g. 'click #save' */
+  calls?: string[];
+
+  /** Selector every action rejects with "No element matches <selector>" */
+  failOn?: string;
+
+  /** Image for each default screenshot (default: 4x4 white) */
+  render?: () => RgbaImage;
+}
+
+// =============================================================================
+// Driver
+// =============================================================================
+
+const ACTIONS = [
+  'open',
+  'navigate',
+  'setViewport',
+  'click',
+  'type',
+  'pressKey',
+  'hover',
+  'focus',
+  'waitFor',
+  'close',
+] as const;
+
+const blankPage = (): RgbaImage => ({ width: 4, height: 4, data: new Uint8Array(64).fill(255) });
+
+/**
+ * Create a fake driver; methods in `options` replace the defaults
+ */
+export function fakeDriver(options: FakeDriverOptions = {}): BrowserDriver {
+  const { calls, failOn, render = blankPage, ...overrides } = options;
+
+  const action = (name: string) => async (...args: unknown[]) => {
+    calls?.push([name, ...args].join(' '));
+    if (failOn && args.includes(failOn)) {
+      throw new Error(`No element matches ${failOn}`);
+    }
+  };
+
+  return {
+    name: 'fake',
+    ...(Object.fromEntries(ACTIONS.map(name => [name, action(name)])) as Pick<BrowserDriver, typeof ACTIONS[number]>),
+    accessibilityTree: async () => '',
+    boundingBoxes: async () => [],
+    focusedElement: async () => undefined,
+    textColors: async () => [],
+    async screenshot(filePath) {
+      fs.writeFileSync(filePath, encodePng(render()));
+    },
+    ...overrides,
+  };
+}
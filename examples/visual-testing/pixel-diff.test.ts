@@ -0,0 +1,228 @@
+/**
+ * Pixel Diff - Test Examples
+ *
+ * Shows how baseline comparisons settle unchanged screenshots locally and
+ * only consult the judge for real differences. No browser or API key needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { decodePng, diffImages, encodePng, perceptualHash, type RgbaImage } from './pixel-diff.js';
+import { compareToBaseline } from './visual-testing.js';
+import { scriptedProvider } from '../llm-review/judge-provider.js';
+import { hashDistance } from '../llm-review/judgment-cache.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Solid image with an optional filled rectangle
+ */
+function image(
+  width: number,
+  height: number,
+  fill: [number, number, number],
+  rect?: { x: number; y: number; width: number; height: number; color: [number, number, number] }
+): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = rect && x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+      data.set([...(inside ? rect.color : fill), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Hand-built PNG chunk without a valid CRC (the decoder doesn't check it)
+ */
+function chunk(type: string, body: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), body, Buffer.alloc(4)]);
+}
+
+// =============================================================================
+// PNG Codec
+// =============================================================================
+
+describe('PNG codec', () => {
+  it('round-trips RGBA images', () => {
+    const original = image(5, 3, [10, 20, 30], { x: 1, y: 1, width: 2, height: 1, color: [200, 0, 0] });
+
+    expect(decodePng(encodePng(original))).toEqual(original);
+  });
+
+  it('decodes filtered RGB rows and 1-bit palettes', () => {
+    const header = (width: number, height: number, bitDepth: number, colorType: number) => {
+      const body = Buffer.alloc(13);
+      body.writeUInt32BE(width, 0);
+      body.writeUInt32BE(height, 4);
+      body[8] = bitDepth;
+      body[9] = colorType;
+      return chunk('IHDR', body);
+    };
+    const signature = encodePng(image(1, 1, [0, 0, 0])).subarray(0, 8);
+
+    // Two RGB pixels per row: row 0 uses Sub, row 1 uses Up
+    const rgb = Buffer.concat([
+      signature,
+      header(2, 2, 8, 2),
+      chunk('IDAT', zlib.deflateSync(Buffer.from([1, 10, 20, 30, 5, 5, 5, 2, 1, 1, 1, 0, 0, 0]))),
+      chunk('IEND', Buffer.alloc(0)),
+    ]);
+    expect(Array.from(decodePng(rgb).data)).toEqual([
+      10, 20, 30, 255, 15, 25, 35, 255,
+      11, 21, 31, 255, 15, 25, 35, 255,
+    ]);
+
+    // 1-bit palette: black, white
+    const palette = Buffer.concat([
+      signature,
+      header(3, 1, 1, 3),
+      chunk('PLTE', Buffer.from([0, 0, 0, 255, 255, 255])),
+      chunk('IDAT', zlib.deflateSync(Buffer.from([0, 0b01000000]))),
+      chunk('IEND', Buffer.alloc(0)),
+    ]);
+    expect(Array.from(decodePng(palette).data)).toEqual([
+      0, 0, 0, 255, 255, 255, 255, 255, 0, 0, 0, 255,
+    ]);
+  });
+
+  it('rejects files that are not PNGs', () => {
+    expect(() => decodePng(Buffer.from('GIF89a'))).toThrow('Not a PNG');
+  });
+});
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+describe('Pixel diff', () => {
+  it('reports no changes for identical images', () => {
+    const diff = diffImages(image(20, 20, [255, 255, 255]), image(20, 20, [255, 255, 255]));
+
+    expect(diff).toMatchObject({ changedPixels: 0, ratio: 0, regions: [] });
+  });
+
+  it('ignores differences below the color threshold', () => {
+    const diff = diffImages(image(10, 10, [200, 200, 200]), image(10, 10, [202, 201, 200]));
+
+    expect(diff.changedPixels).toBe(0);
+  });
+
+  it('groups changed pixels into bounding boxes', () => {
+    const baseline = image(64, 64, [255, 255, 255]);
+    const current = image(64, 64, [255, 255, 255], {
+      x: 10, y: 20, width: 6, height: 4, color: [0, 0, 255],
+    });
+
+    const diff = diffImages(baseline, current);
+
+    expect(diff.changedPixels).toBe(24);
+    expect(diff.ratio).toBeCloseTo(24 / (64 * 64));
+    expect(diff.regions).toEqual([{ x: 10, y: 20, width: 6, height: 4, pixels: 24 }]);
+    const heatmap = diff.heatmap?.data ?? new Uint8Array();
+    expect(Array.from(heatmap.subarray((20 * 64 + 10) * 4, (20 * 64 + 10) * 4 + 4))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('refuses images of different sizes', () => {
+    expect(() => diffImages(image(2, 2, [0, 0, 0]), image(3, 2, [0, 0, 0]))).toThrow('sizes differ');
+  });
+});
+
+describe('Perceptual hash', () => {
+  const page = (x: number, color: [number, number, number]) =>
+    image(320, 240, [255, 255, 255], { x, y: 40, width: 120, height: 60, color });
+
+  it('gives near-identical renders nearby hashes and layout changes distant ones', () => {
+    const hash = perceptualHash(page(40, [0, 0, 200]));
+
+    expect(hash).toHaveLength(64);
+    expect(hashDistance(hash, perceptualHash(page(40, [2, 1, 203])))).toBe(0);
+    expect(hashDistance(hash, perceptualHash(page(180, [0, 0, 200])))).toBeGreaterThan(10);
+  });
+});
+
+// =============================================================================
+// Baseline Comparison
+// =============================================================================
+
+describe('compareToBaseline', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pixel-diff-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, img: RgbaImage): string => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, encodePng(img));
+    return file;
+  };
+
+  it('passes identical screenshots without calling the judge', async () => {
+    const provider = scriptedProvider([]);
+    const baseline = write('baseline.png', image(32, 32, [240, 240, 240]));
+    const current = write('current.png', image(32, 32, [240, 240, 240]));
+
+    const result = await compareToBaseline(baseline, current, 'No visual changes', {
+      intelligence: 'fast',
+      provider,
+    });
+
+    expect(result).toMatchObject({ pass: true, outcome: 'pass', pixelDiff: { changedPixels: 0 } });
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('escalates real changes to the judge with a heatmap', async () => {
+    const provider = scriptedProvider(['{"pass": false, "feedback": "Button turned blue"}']);
+    const baseline = write('baseline.png', image(32, 32, [255, 255, 255]));
+    const current = write('current.png', image(32, 32, [255, 255, 255], {
+      x: 4, y: 4, width: 8, height: 8, color: [0, 0, 255],
+    }));
+    const heatmapPath = path.join(dir, 'diff.png');
+
+    const result = await compareToBaseline(baseline, current, 'Colors unchanged', {
+      intelligence: 'fast',
+      provider,
+      heatmapPath,
+    });
+
+    expect(result).toMatchObject({
+      pass: false,
+      outcome: 'fail',
+      feedback: 'Button turned blue',
+      pixelDiff: { changedPixels: 64, heatmapPath },
+    });
+    expect(fs.existsSync(heatmapPath)).toBe(true);
+    expect(provider.calls[0].content.filter(block => block.type === 'image')).toHaveLength(3);
+    expect(provider.calls[0].content[0]).toMatchObject({ text: expect.stringContaining('8x8 at (4, 4)') });
+  });
+
+  it('lets small changes through under maxDiffRatio', async () => {
+    const provider = scriptedProvider([]);
+    const baseline = write('baseline.png', image(100, 100, [255, 255, 255]));
+    const current = write('current.png', image(100, 100, [255, 255, 255], {
+      x: 0, y: 0, width: 2, height: 2, color: [0, 0, 0],
+    }));
+
+    const result = await compareToBaseline(baseline, current, 'No visual changes', {
+      intelligence: 'fast',
+      provider,
+      maxDiffRatio: 0.001,
+    });
+
+    expect(result.pass).toBe(true);
+    expect(provider.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,766 @@
+/**
+ * Pixel Diff for Visual Baselines
+ *
+ * A dependency-free PNG decoder/encoder and pixel comparison, so baseline
+ * checks can settle identical or near-identical screenshots locally and
+ * only escalate real differences to the LLM judge.
+ *
+ * Pixels are compared in YIQ space with a perceptual threshold; pixels that
+ * look like anti-aliasing (font smoothing, sub-pixel edges) are counted
+ * separately and ignored by default. Changed pixels are grouped into
+ * bounding boxes, and a heatmap (changes in red, anti-aliasing in yellow
+ * over a faded baseline) can be written for the judge and for humans.
+ * Crop and fill helpers support region-scoped and masked screenshots,
+ * filmstrips lay a sequence of frames side by side for transition checks,
+ * and perceptual hashes let near-identical renders be recognised cheaply.
+ *
+ * Usage:
+ *   const diff = diffImages(decodePng(baseline), decodePng(current));
+ *   if (diff.ratio > 0.001 && diff.heatmap) fs.writeFileSync('diff.png', encodePng(diff.heatmap));
+ */
+
+import * as zlib from 'zlib';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Decoded image as 8-bit RGBA, row-major */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/** Axis-aligned rectangle in image pixels */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiffRegion extends Rect {
+  /** Changed pixels inside the box */
+  pixels: number;
+}
+
+export interface PixelDiffOptions {
+  /** Per-pixel color distance tolerated, 0 (exact) to 1 (default: 0.1) */
+  threshold?: number;
+
+  /** Count anti-aliased pixels as changes (default: false) */
+  includeAntiAliasing?: boolean;
+
+  /** Changed pixels closer than this many px join one region (default: 8) */
+  regionGap?: number;
+
+  /** Produce a heatmap image (default: true) */
+  heatmap?: boolean;
+}
+
+export interface PixelDiffResult {
+  width: number;
+  height: number;
+
+  /** Pixels that differ beyond the threshold (excluding anti-aliasing unless included) */
+  changedPixels: number;
+
+  /** Pixels that differ but look like anti-aliasing */
+  antiAliasedPixels: number;
+
+  /** changedPixels / total pixels */
+  ratio: number;
+
+  /** Bounding boxes of changed areas, largest first */
+  regions: DiffRegion[];
+
+  /** Changes in red, anti-aliasing in yellow, over a faded baseline */
+  heatmap?: RgbaImage;
+}
+
+// =============================================================================
+// PNG Decoding
+// =============================================================================
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Samples per pixel by PNG color type */
+const CHANNELS: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette
+  4: 2, // grayscale + alpha
+  6: 4, // RGBA
+};
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode a non-interlaced PNG of any color type and bit depth into RGBA.
+ * 16-bit samples are reduced to their high byte.
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let header: { width: number; height: number; bitDepth: number; colorType: number; interlace: number } | undefined;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      header = {
+        width: chunk.readUInt32BE(0),
+        height: chunk.readUInt32BE(4),
+        bitDepth: chunk[8],
+        colorType: chunk[9],
+        interlace: chunk[12],
+      };
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!header) {
+    throw new Error('PNG is missing its IHDR chunk');
+  }
+  if (header.interlace !== 0) {
+    throw new Error('Interlaced PNGs are not supported');
+  }
+  const channels = CHANNELS[header.colorType];
+  if (!channels) {
+    throw new Error(`Unsupported PNG color type: ${header.colorType}`);
+  }
+  if (header.colorType === 3 && !palette) {
+    throw new Error('Palette PNG is missing its PLTE chunk');
+  }
+
+  const { width, height, bitDepth, colorType } = header;
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('PNG image data is truncated');
+  }
+
+  // Undo per-row filters
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+
+    for (let i = 0; i < stride; i++) {
+      const x = raw[source + i];
+      const a = i >= bytesPerPixel ? pixels[row + i - bytesPerPixel] : 0;
+      const b = y > 0 ? pixels[row - stride + i] : 0;
+      const c = i >= bytesPerPixel && y > 0 ? pixels[row - stride + i - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 0: value = x; break;
+        case 1: value = x + a; break;
+        case 2: value = x + b; break;
+        case 3: value = x + ((a + b) >> 1); break;
+        case 4: value = x + paeth(a, b, c); break;
+        default: throw new Error(`Invalid PNG filter type ${filter} on row ${y}`);
+      }
+      pixels[row + i] = value & 0xff;
+    }
+  }
+
+  // Read sample n of a row, scaled to 8 bits (palette indices are left as-is)
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (row: number, n: number, scale: boolean): number => {
+    let value: number;
+    if (bitDepth === 8) {
+      value = pixels[row + n];
+    } else if (bitDepth === 16) {
+      return pixels[row + n * 2];
+    } else {
+      const bit = n * bitDepth;
+      value = (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    }
+    return scale ? Math.round((value * 255) / maxSample) : value;
+  };
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const n = x * channels;
+
+      if (colorType === 3) {
+        const index = sample(row, n, false);
+        data[out] = palette![index * 3];
+        data[out + 1] = palette![index * 3 + 1];
+        data[out + 2] = palette![index * 3 + 2];
+        data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = sample(row, n, true);
+        data[out] = data[out + 1] = data[out + 2] = gray;
+        data[out + 3] = colorType === 4 ? sample(row, n + 1, true) : 255;
+      } else {
+        data[out] = sample(row, n, true);
+        data[out + 1] = sample(row, n + 1, true);
+        data[out + 2] = sample(row, n + 2, true);
+        data[out + 3] = colorType === 6 ? sample(row, n + 3, true) : 255;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+// =============================================================================
+// PNG Encoding
+// =============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, body: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  const typeAndBody = Buffer.concat([Buffer.from(type, 'latin1'), body]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndBody));
+  return Buffer.concat([length, typeAndBody, crc]);
+}
+
+/**
+ * Encode an RGBA image as an 8-bit, unfiltered PNG
+ */
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// =============================================================================
+// Pixel Comparison
+// =============================================================================
+
+/** Largest possible YIQ delta, used to scale the 0-1 threshold */
+const MAX_YIQ_DELTA = 35215;
+
+/** Per-pixel classification in the diff mask */
+const UNCHANGED = 0;
+const ANTI_ALIASED = 1;
+const CHANGED = 2;
+
+function rgb2y(r: number, g: number, b: number): number {
+  return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgb2i(r: number, g: number, b: number): number {
+  return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgb2q(r: number, g: number, b: number): number {
+  return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
+
+/** Blend a channel with white by alpha (0-1) */
+function blend(channel: number, alpha: number): number {
+  return 255 + (channel - 255) * alpha;
+}
+
+/**
+ * Perceptual distance between two RGBA pixels (signed: negative when the
+ * first is brighter). With brightnessOnly, returns the luma difference.
+ */
+function colorDelta(
+  a: Uint8Array,
+  b: Uint8Array,
+  i: number,
+  j: number,
+  brightnessOnly: boolean = false
+): number {
+  let r1 = a[i], g1 = a[i + 1], b1 = a[i + 2];
+  let r2 = b[j], g2 = b[j + 1], b2 = b[j + 2];
+  const a1 = a[i + 3], a2 = b[j + 3];
+
+  if (a1 === a2 && r1 === r2 && g1 === g2 && b1 === b2) {
+    return 0;
+  }
+
+  if (a1 < 255) {
+    r1 = blend(r1, a1 / 255); g1 = blend(g1, a1 / 255); b1 = blend(b1, a1 / 255);
+  }
+  if (a2 < 255) {
+    r2 = blend(r2, a2 / 255); g2 = blend(g2, a2 / 255); b2 = blend(b2, a2 / 255);
+  }
+
+  const y1 = rgb2y(r1, g1, b1);
+  const y2 = rgb2y(r2, g2, b2);
+  const y = y1 - y2;
+  if (brightnessOnly) {
+    return y;
+  }
+
+  const iDelta = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const qDelta = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  const delta = 0.5053 * y * y + 0.299 * iDelta * iDelta + 0.1957 * qDelta * qDelta;
+  return y1 > y2 ? -delta : delta;
+}
+
+/**
+ * Whether a pixel has 3+ identical neighbours (i.e. sits in a flat area)
+ */
+function hasManySiblings(image: RgbaImage, x1: number, y1: number): boolean {
+  const { width, height, data } = image;
+  const x0 = Math.max(x1 - 1, 0), y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1), y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) continue;
+      const other = (y * width + x) * 4;
+      if (
+        data[pos] === data[other] &&
+        data[pos + 1] === data[other + 1] &&
+        data[pos + 2] === data[other + 2] &&
+        data[pos + 3] === data[other + 3]
+      ) {
+        zeroes++;
+      }
+      if (zeroes > 2) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a pixel looks like an anti-aliased edge: it lies on a brightness
+ * gradient between neighbours that are themselves in flat areas of both images
+ */
+function isAntiAliased(image: RgbaImage, x1: number, y1: number, other: RgbaImage): boolean {
+  const { width, height, data } = image;
+  const x0 = Math.max(x1 - 1, 0), y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1), y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+  let min = 0, max = 0;
+  let minX = 0, minY = 0, maxX = 0, maxY = 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) continue;
+      const delta = colorDelta(data, data, pos, (y * width + x) * 4, true);
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) return false;
+      } else if (delta < min) {
+        min = delta; minX = x; minY = y;
+      } else if (delta > max) {
+        max = delta; maxX = x; maxY = y;
+      }
+    }
+  }
+
+  // Not a gradient: no darker or no brighter neighbour
+  if (min === 0 || max === 0) {
+    return false;
+  }
+
+  return (
+    (hasManySiblings(image, minX, minY) && hasManySiblings(other, minX, minY)) ||
+    (hasManySiblings(image, maxX, maxY) && hasManySiblings(other, maxX, maxY))
+  );
+}
+
+/**
+ * Group changed pixels into bounding boxes. Pixels are bucketed into
+ * gap-sized cells and touching cells merged, so nearby changes form one region.
+ */
+function findRegions(mask: Uint8Array, width: number, height: number, gap: number): DiffRegion[] {
+  const cols = Math.ceil(width / gap);
+  const rows = Math.ceil(height / gap);
+  const cells = cols * rows;
+  const minX = new Int32Array(cells).fill(-1);
+  const minY = new Int32Array(cells);
+  const maxX = new Int32Array(cells);
+  const maxY = new Int32Array(cells);
+  const count = new Int32Array(cells);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] !== CHANGED) continue;
+      const cell = Math.floor(y / gap) * cols + Math.floor(x / gap);
+      if (minX[cell] === -1) {
+        minX[cell] = maxX[cell] = x;
+        minY[cell] = maxY[cell] = y;
+      } else {
+        minX[cell] = Math.min(minX[cell], x);
+        maxX[cell] = Math.max(maxX[cell], x);
+        minY[cell] = Math.min(minY[cell], y);
+        maxY[cell] = Math.max(maxY[cell], y);
+      }
+      count[cell]++;
+    }
+  }
+
+  const regions: DiffRegion[] = [];
+  const visited = new Uint8Array(cells);
+  for (let start = 0; start < cells; start++) {
+    if (minX[start] === -1 || visited[start]) continue;
+
+    const box = { x0: Infinity, y0: Infinity, x1: -1, y1: -1, pixels: 0 };
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      box.x0 = Math.min(box.x0, minX[cell]);
+      box.y0 = Math.min(box.y0, minY[cell]);
+      box.x1 = Math.max(box.x1, maxX[cell]);
+      box.y1 = Math.max(box.y1, maxY[cell]);
+      box.pixels += count[cell];
+
+      const cx = cell % cols;
+      const cy = Math.floor(cell / cols);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx, ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+          const next = ny * cols + nx;
+          if (minX[next] !== -1 && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    regions.push({
+      x: box.x0,
+      y: box.y0,
+      width: box.x1 - box.x0 + 1,
+      height: box.y1 - box.y0 + 1,
+      pixels: box.pixels,
+    });
+  }
+
+  return regions.sort((a, b) => b.width * b.height - a.width * a.height);
+}
+
+/**
+ * Compare two images of the same size pixel by pixel
+ */
+export function diffImages(
+  baseline: RgbaImage,
+  current: RgbaImage,
+  options: PixelDiffOptions = {}
+): PixelDiffResult {
+  const { width, height } = baseline;
+  if (current.width !== width || current.height !== height) {
+    throw new Error(
+      `Image sizes differ: baseline ${width}x${height}, current ${current.width}x${current.height}`
+    );
+  }
+
+  const threshold = options.threshold ?? 0.1;
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const mask = new Uint8Array(width * height);
+  let changedPixels = 0;
+  let antiAliasedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const delta = colorDelta(baseline.data, current.data, index * 4, index * 4);
+      if (Math.abs(delta) <= maxDelta) {
+        mask[index] = UNCHANGED;
+      } else if (
+        !options.includeAntiAliasing &&
+        (isAntiAliased(baseline, x, y, current) || isAntiAliased(current, x, y, baseline))
+      ) {
+        mask[index] = ANTI_ALIASED;
+        antiAliasedPixels++;
+      } else {
+        mask[index] = CHANGED;
+        changedPixels++;
+      }
+    }
+  }
+
+  let heatmap: RgbaImage | undefined;
+  if (options.heatmap !== false) {
+    const data = new Uint8Array(width * height * 4);
+    for (let index = 0; index < width * height; index++) {
+      const out = index * 4;
+      if (mask[index] === CHANGED) {
+        data.set([255, 0, 0, 255], out);
+      } else if (mask[index] === ANTI_ALIASED) {
+        data.set([255, 255, 0, 255], out);
+      } else {
+        const source = baseline.data;
+        const luma = rgb2y(source[out], source[out + 1], source[out + 2]);
+        const gray = blend(luma, (0.1 * source[out + 3]) / 255);
+        data.set([gray, gray, gray, 255], out);
+      }
+    }
+    heatmap = { width, height, data };
+  }
+
+  return {
+    width,
+    height,
+    changedPixels,
+    antiAliasedPixels,
+    ratio: width * height > 0 ? changedPixels / (width * height) : 0,
+    regions: changedPixels > 0 ? findRegions(mask, width, height, options.regionGap ?? 8) : [],
+    heatmap,
+  };
+}
+
+// =============================================================================
+// Cropping, Masking and Drawing
+// =============================================================================
+
+/**
+ * Clamp a rectangle to the image and round it to whole pixels
+ */
+function clampRect(image: RgbaImage, rect: Rect): Rect {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(image.width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(image.height, Math.ceil(rect.y + rect.height));
+  return { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+}
+
+/**
+ * Copy a rectangle out of an image. Throws if it lies outside the image.
+ */
+export function cropImage(image: RgbaImage, rect: Rect): RgbaImage {
+  const area = clampRect(image, rect);
+  if (area.width === 0 || area.height === 0) {
+    throw new Error(
+      `Crop area ${rect.width}x${rect.height} at (${rect.x}, ${rect.y}) is outside the ${image.width}x${image.height} image`
+    );
+  }
+
+  const data = new Uint8Array(area.width * area.height * 4);
+  for (let y = 0; y < area.height; y++) {
+    const start = ((area.y + y) * image.width + area.x) * 4;
+    data.set(image.data.subarray(start, start + area.width * 4), y * area.width * 4);
+  }
+  return { width: area.width, height: area.height, data };
+}
+
+/**
+ * Paint rectangles with a solid color (parts outside the image are ignored)
+ */
+export function fillRects(
+  image: RgbaImage,
+  rects: Rect[],
+  color: [number, number, number]
+): RgbaImage {
+  const data = new Uint8Array(image.data);
+  for (const rect of rects) {
+    const area = clampRect(image, rect);
+    for (let y = area.y; y < area.y + area.height; y++) {
+      for (let x = area.x; x < area.x + area.width; x++) {
+        data.set([color[0], color[1], color[2], 255], (y * image.width + x) * 4);
+      }
+    }
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * Draw rectangle outlines (parts outside the image are ignored)
+ */
+export function outlineRects(
+  image: RgbaImage,
+  rects: Rect[],
+  color: [number, number, number],
+  thickness: number = 2
+): RgbaImage {
+  const edges = rects.flatMap(rect => [
+    { x: rect.x, y: rect.y, width: rect.width, height: thickness },
+    { x: rect.x, y: rect.y + rect.height - thickness, width: rect.width, height: thickness },
+    { x: rect.x, y: rect.y, width: thickness, height: rect.height },
+    { x: rect.x + rect.width - thickness, y: rect.y, width: thickness, height: rect.height },
+  ]);
+  return fillRects(image, edges, color);
+}
+
+// =============================================================================
+// Filmstrips
+// =============================================================================
+
+/**
+ * Shrink an image to a width, averaging the source pixels each output
+ * pixel covers. Images already that narrow are returned unchanged.
+ */
+export function resizeImage(image: RgbaImage, width: number): RgbaImage {
+  if (width >= image.width) {
+    return image;
+  }
+
+  const scale = image.width / width;
+  const height = Math.max(1, Math.round(image.height / scale));
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scale);
+    const y1 = Math.min(image.height, Math.max(y0 + 1, Math.floor((y + 1) * scale)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scale);
+      const x1 = Math.min(image.width, Math.max(x0 + 1, Math.floor((x + 1) * scale)));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          sum[0] += image.data[i];
+          sum[1] += image.data[i + 1];
+          sum[2] += image.data[i + 2];
+          sum[3] += image.data[i + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      data.set(sum.map(v => Math.round(v / count)), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Lay frames out left to right on a grey background, each shrunk to
+ * frameWidth, so a sequence can be judged as one image
+ */
+export function composeFilmstrip(
+  frames: RgbaImage[],
+  frameWidth: number = 480,
+  gap: number = 8
+): RgbaImage {
+  if (frames.length === 0) {
+    throw new Error('A filmstrip needs at least one frame');
+  }
+
+  const scaled = frames.map(frame => resizeImage(frame, frameWidth));
+  const width = scaled.reduce((sum, frame) => sum + frame.width, 0) + gap * (scaled.length + 1);
+  const height = Math.max(...scaled.map(frame => frame.height)) + gap * 2;
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([128, 128, 128, 255], i);
+  }
+
+  let left = gap;
+  for (const frame of scaled) {
+    for (let y = 0; y < frame.height; y++) {
+      const start = y * frame.width * 4;
+      data.set(frame.data.subarray(start, start + frame.width * 4), ((gap + y) * width + left) * 4);
+    }
+    left += frame.width + gap;
+  }
+  return { width, height, data };
+}
+
+// =============================================================================
+// Perceptual Hashing
+// =============================================================================
+
+/**
+ * Difference hash of an image: shrink it to (size + 1) x size grey cells
+ * and record whether each cell is darker than its right neighbour. Renders
+ * that differ only by anti-aliasing or compression noise get the same or a
+ * nearby hash; compare hashes with hashDistance from judgment-cache.
+ * Returns size² bits as hex.
+ */
+export function perceptualHash(image: RgbaImage, size: number = 16): string {
+  const cols = size + 1;
+  const cell = (index: number, count: number, extent: number): [number, number] => {
+    const start = Math.min(extent - 1, Math.floor((index * extent) / count));
+    return [start, Math.min(extent, Math.max(start + 1, Math.floor(((index + 1) * extent) / count)))];
+  };
+
+  const grey = new Float64Array(cols * size);
+  for (let gy = 0; gy < size; gy++) {
+    const [y0, y1] = cell(gy, size, image.height);
+    for (let gx = 0; gx < cols; gx++) {
+      const [x0, x1] = cell(gx, cols, image.width);
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * image.width + x) * 4;
+          sum += 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+        }
+      }
+      grey[gy * cols + gx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  let hex = '';
+  let nibble = 0;
+  for (let gy = 0; gy < size; gy++) {
+    for (let gx = 0; gx < size; gx++) {
+      // A step of at least one grey level, so rounding in uniform areas doesn't set bits
+      nibble = (nibble << 1) | (grey[gy * cols + gx + 1] - grey[gy * cols + gx] >= 1 ? 1 : 0);
+      if ((gy * size + gx) % 4 === 3) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  const spare = (size * size) % 4;
+  return spare ? hex + (nibble << (4 - spare)).toString(16) : hex;
+}
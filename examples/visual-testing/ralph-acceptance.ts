@@ -0,0 +1,16 @@
+/**
+ * ralph-acceptance CLI
+ *
+ * Judge the Quality Requirements of specs/*.md against the artifact
+ * sources each spec declares, and write the checkbox results back.
+ *
+ * Usage:
+ *   npm run ralph-acceptance -- specs/*.md [--base-url <url>] [--out <dir>] [--section <name>]
+ */
+
+import { runRalphAcceptance } from '../llm-review/spec-acceptance.js';
+import { createPageJudge } from './visual-testing.js';
+
+runRalphAcceptance(process.argv.slice(2), console.log, { pageJudge: createPageJudge() }).then(code => {
+  process.exitCode = code;
+});
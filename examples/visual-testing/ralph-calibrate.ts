@@ -0,0 +1,17 @@
+/**
+ * ralph-calibrate CLI
+ *
+ * Run the judge over labelled golden sets and fail when precision,
+ * recall or the false-pass / false-fail rates cross the floor. Visual
+ * corpora are judged with performVisualAssertion.
+ *
+ * Usage:
+ *   npm run ralph-calibrate -- calibration/* [--levels fast,smart] [--min-accuracy 0.9] [--max-false-pass 0.05]
+ */
+
+import { runJudgeCalibration } from '../llm-review/judge-calibration.js';
+import { performVisualAssertion } from './visual-testing.js';
+
+runJudgeCalibration(process.argv.slice(2), console.log, { visualJudge: performVisualAssertion }).then(code => {
+  process.exitCode = code;
+});
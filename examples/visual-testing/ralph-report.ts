@@ -0,0 +1,15 @@
+/**
+ * ralph-report CLI
+ *
+ * Render the run journal recorded during a build loop (RALPH_RUN_JOURNAL)
+ * as a self-contained HTML report.
+ *
+ * Usage:
+ *   npm run ralph-report -- [--journal <path>] [--out <path>] [--failures-only]
+ */
+
+import { runRunReport } from '../llm-review/run-report.js';
+
+runRunReport(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,182 @@
+/**
+ * Declarative Scenarios - Test Examples
+ *
+ * Shows the scenario format, how it is validated, and how the runner
+ * drives VisualTestContext. No browser or API key needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fakeDriver } from './fake-driver.js';
+import { parseScenario, parseYaml, runScenario, runVisualScenarios } from './scenario-runner.js';
+import { scriptedProvider } from '../llm-review/judge-provider.js';
+
+const SIGNUP = `# Signup acceptance criteria
+name: Signup
+baseUrl: http://app.test
+viewports: [desktop, mobile]
+pages:
+  - name: signup
+    path: /signup
+    actions:
+      - type: "#email"
+        text: ada@example.com
+      - key: Tab
+    assertions:
+      - visual: Single clear call to action # the submit button
+      - interactive: >
+          Submit button shows
+          a focus ring
+        target: button[type=submit]
+        state: focus
+`;
+
+// =============================================================================
+// YAML
+// =============================================================================
+
+describe('Scenario YAML', () => {
+  it('parses mappings, sequences, flow lists, quotes, comments and folded text', () => {
+    expect(parseYaml(SIGNUP)).toEqual({
+      name: 'Signup',
+      baseUrl: 'http://app.test',
+      viewports: ['desktop', 'mobile'],
+      pages: [{
+        name: 'signup',
+        path: '/signup',
+        actions: [{ type: '#email', text: 'ada@example.com' }, { key: 'Tab' }],
+        assertions: [
+          { visual: 'Single clear call to action' },
+          { interactive: 'Submit button shows a focus ring\n', target: 'button[type=submit]', state: 'focus' },
+        ],
+      }],
+    });
+  });
+
+  it('reads literal blocks, flow maps and sequences at the key indent', () => {
+    expect(parseYaml('mask:\n- .clock\n- {x: 0, y: 0, width: 10, height: 5}\nnote: |-\n  one\n  two')).toEqual({
+      mask: ['.clock', { x: 0, y: 0, width: 10, height: 5 }],
+      note: 'one\ntwo',
+    });
+  });
+
+  it('reports the line of malformed input', () => {
+    expect(() => parseYaml('name: a\n  oops: b')).toThrow('line 2');
+    expect(() => parseYaml('name: a\nname: b')).toThrow('line 2: duplicate key: name');
+  });
+});
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+describe('Scenario validation', () => {
+  it('accepts JSON with the same shape', () => {
+    const scenario = parseScenario(JSON.stringify({
+      name: 'Home',
+      pages: [{ path: '/', viewports: [{ width: 800, height: 600 }], assertions: [{ accessibility: 'WCAG AA' }] }],
+    }));
+
+    expect(scenario.pages[0].viewports).toEqual([{ name: '800x600', width: 800, height: 600 }]);
+  });
+
+  it('names the field that is wrong', () => {
+    const scenario = (page: string) => `name: Broken\npages:\n  - path: /\n${page}`;
+
+    expect(() => parseScenario(scenario('    actions:\n      - type: "#email"\n    assertions:\n      - visual: ok')))
+      .toThrow('pages[0].actions[0]: "type" needs the text to enter in "text"');
+    expect(() => parseScenario(scenario('    assertions:\n      - screenshot: home')))
+      .toThrow('pages[0].assertions[0]: expected exactly one of visual, baseline, interactive, accessibility');
+    expect(() => parseScenario(scenario('    viewports: [watch]\n    assertions:\n      - visual: ok')))
+      .toThrow('Unknown viewport: watch');
+  });
+});
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+describe('Scenario runner', () => {
+  let outputDir: string;
+  let calls: string[];
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-scenarios-'));
+    calls = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('runs every page at every viewport and writes a summary', async () => {
+    const provider = scriptedProvider([
+      '{"pass": true}',
+      '{"pass": true}',
+      '{"pass": true}',
+      '{"pass": false, "feedback": "No focus ring on mobile"}',
+    ]);
+
+    const summary = await runScenario(parseScenario(SIGNUP), { driver: fakeDriver({ calls }), provider, outputDir });
+
+    expect(calls).toEqual([
+      'open http://app.test/signup',
+      'setViewport 1920 1080',
+      'type #email ada@example.com',
+      'pressKey Tab',
+      'focus button[type=submit]',
+      'navigate http://app.test/signup',
+      'setViewport 375 812',
+      'type #email ada@example.com',
+      'pressKey Tab',
+      'focus button[type=submit]',
+      'close',
+    ]);
+    expect(summary).toMatchObject({ scenario: 'Signup', total: 4, passed: 3, failed: 1, errors: 0 });
+    expect(summary.results[3]).toMatchObject({ page: 'signup', viewport: 'mobile', kind: 'interactive' });
+    expect(summary.results[0].result.screenshotPath).toBe(path.join(outputDir, 'signup-0@desktop.png'));
+    expect(JSON.parse(fs.readFileSync(path.join(outputDir, 'signup-summary.json'), 'utf-8')).failed).toBe(1);
+  });
+
+  it('records the assertions of a page whose actions fail as errors', async () => {
+    const provider = scriptedProvider([]);
+
+    const summary = await runScenario(
+      parseScenario('name: Home\nbaseUrl: http://app.test\npages:\n  - path: /\n    actions:\n      - click: .missing\n    assertions:\n      - visual: ok'),
+      { driver: fakeDriver({ calls, failOn: '.missing' }), provider, outputDir }
+    );
+
+    expect(summary.errors).toBe(1);
+    expect(summary.results[0].result.feedback).toBe('Page setup failed: No element matches .missing');
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('records a throwing assertion as an error and runs the next one', async () => {
+    const provider = scriptedProvider(['{"pass": true}']);
+
+    const summary = await runScenario(
+      parseScenario('name: Home\nbaseUrl: http://app.test\npages:\n  - path: /\n    assertions:\n      - visual: Logo is crisp\n        selector: .logo\n      - visual: ok'),
+      { driver: fakeDriver(), provider, outputDir }
+    );
+
+    expect(summary).toMatchObject({ total: 2, passed: 1, errors: 1 });
+    expect(summary.results[0].result).toMatchObject({
+      outcome: 'error',
+      feedback: expect.stringContaining('Element not found'),
+    });
+    expect(fs.existsSync(summary.summaryPath)).toBe(true);
+  });
+
+  it('exits non-zero from the CLI when a scenario file is invalid', async () => {
+    const file = path.join(outputDir, 'broken.yaml');
+    fs.writeFileSync(file, 'name: Broken\n');
+    const lines: string[] = [];
+
+    const code = await runVisualScenarios([file, '--dir', outputDir], line => lines.push(line));
+
+    expect(code).toBe(1);
+    expect(lines[0]).toBe(`✗ ${file}: scenario: "pages" must be a non-empty list`);
+  });
+});
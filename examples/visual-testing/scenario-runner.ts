@@ -0,0 +1,780 @@
+/**
+ * Declarative Visual Test Scenarios
+ *
+ * Describes visual tests as data instead of TypeScript: the pages to
+ * visit, the viewports to check them at, the actions to perform, and the
+ * assertions to make. Scenarios are YAML or JSON, so they can be written
+ * by hand from acceptance criteria or generated from specs/*.md.
+ *
+ *   name: Signup
+ *   baseUrl: http://localhost:3000
+ *   viewports: [desktop, mobile]
+ *   pages:
+ *     - name: signup
+ *       path: /signup
+ *       actions:
+ *         - type: "#email"
+ *           text: ada@example.com
+ *         - hover: button[type=submit]
+ *         - key: Tab
+ *         - waitFor: .hint
+ *       assertions:
+ *         - visual: Single clear call to action; hint text readable
+ *         - baseline: signup-form
+ *           criteria: No layout changes
+ *           selector: form
+ *           mask: [.timestamp]
+ *         - interactive: Submit button shows a focus ring
+ *           target: button[type=submit]
+ *           state: focus
+ *         - accessibility: WCAG AA
+ *
+ * Each page is loaded fresh at every viewport before its actions run.
+ * Results go to the run journal like any other assertion, and a JSON
+ * summary is written next to the screenshots.
+ *
+ * Usage:
+ *   npm run visual-scenarios -- scenarios/signup.yaml [--base-url <url>] [--dir <path>]
+ *
+ *   const summary = await runScenario(loadScenario('scenarios/signup.yaml'));
+ *
+ * YAML support covers what scenarios need: block mappings and sequences,
+ * flow [lists] and {maps}, quoted and plain scalars, | and > block
+ * scalars, and comments. Anchors, tags and multiple documents are not
+ * supported.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  VIEWPORTS,
+  VisualTestContext,
+  type InteractiveStateConfig,
+  type MaskTarget,
+  type Viewport,
+  type VisualAssertionResult,
+  type VisualTestConfig,
+} from './visual-testing.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Preset name from VIEWPORTS (key or name, e.g. 'mobile' or 'tablet-landscape') or a custom size */
+export type ScenarioViewport = string | Viewport;
+
+export type ScenarioAction =
+  | { click: string }
+  | { type: string; text: string }
+  | { hover: string }
+  | { key: string }
+  | { waitFor: string; timeout?: number };
+
+export type ScenarioAssertion =
+  | { visual: string; name?: string; selector?: string; mask?: MaskTarget[] }
+  | { baseline: string; criteria: string; selector?: string; mask?: MaskTarget[] }
+  | { interactive: string; target: string; state: InteractiveStateConfig['state'] }
+  | { accessibility: string };
+
+export interface ScenarioPage {
+  /** Used in screenshot names and the summary (default: the path) */
+  name?: string;
+
+  /** Path relative to the base URL */
+  path: string;
+
+  /** Overrides the scenario's viewports for this page */
+  viewports?: ScenarioViewport[];
+
+  /** Performed in order after the page loads, before the assertions */
+  actions?: ScenarioAction[];
+
+  assertions: ScenarioAssertion[];
+}
+
+export interface VisualScenario {
+  name: string;
+
+  /** Base URL of the application (can be overridden when running) */
+  baseUrl?: string;
+
+  /** Viewports to check every page at (default: the browser's current size) */
+  viewports?: ScenarioViewport[];
+
+  pages: ScenarioPage[];
+}
+
+export interface ScenarioRunOptions extends Partial<VisualTestConfig> {
+  /** Where to write the JSON summary (default: <outputDir>/<scenario>-summary.json) */
+  summaryPath?: string;
+}
+
+export interface ScenarioAssertionResult {
+  page: string;
+
+  /** Viewport name, or 'default' when the scenario sets none */
+  viewport: string;
+
+  /** Assertion kind: visual, baseline, interactive or accessibility */
+  kind: string;
+
+  /** Criteria as written in the scenario */
+  criteria: string;
+
+  result: VisualAssertionResult;
+}
+
+export interface ScenarioSummary {
+  scenario: string;
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  results: ScenarioAssertionResult[];
+
+  /** Where the summary was written */
+  summaryPath: string;
+}
+
+// =============================================================================
+// YAML Subset
+// =============================================================================
+
+interface YamlLine {
+  indent: number;
+  text: string;
+
+  /** 1-based line number for error messages */
+  number: number;
+}
+
+function yamlError(line: number, message: string): Error {
+  return new Error(`Scenario YAML line ${line}: ${message}`);
+}
+
+/**
+ * Remove a trailing `# comment` that is outside quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function parseScalar(text: string, line: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw yamlError(line, `invalid double-quoted string: ${text}`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) {
+      throw yamlError(line, `invalid single-quoted string: ${text}`);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+/**
+ * Parse a flow collection like `[a, "b", {c: 1}]`
+ */
+function parseFlow(text: string, line: number): unknown {
+  let pos = 0;
+  const skip = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const value = (stops: string): unknown => {
+    skip();
+    const char = text[pos];
+    if (char === '[') {
+      pos++;
+      const items: unknown[] = [];
+      skip();
+      while (text[pos] !== ']') {
+        items.push(value(',]'));
+        skip();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== ']') throw yamlError(line, `expected , or ] in ${text}`);
+        skip();
+      }
+      pos++;
+      return items;
+    }
+    if (char === '{') {
+      pos++;
+      const map: Record<string, unknown> = {};
+      skip();
+      while (text[pos] !== '}') {
+        const key = value(':,}');
+        skip();
+        if (text[pos] !== ':') throw yamlError(line, `expected : in ${text}`);
+        pos++;
+        map[String(key)] = value(',}');
+        skip();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== '}') throw yamlError(line, `expected , or } in ${text}`);
+        skip();
+      }
+      pos++;
+      return map;
+    }
+    if (char === '"' || char === "'") {
+      const start = pos++;
+      while (pos < text.length && text[pos] !== char) {
+        if (text[pos] === '\\' && char === '"') pos++;
+        pos++;
+      }
+      pos++;
+      return parseScalar(text.slice(start, pos), line);
+    }
+    const start = pos;
+    while (pos < text.length && !stops.includes(text[pos])) {
+      pos++;
+    }
+    if (pos >= text.length) {
+      throw yamlError(line, `unterminated flow collection: ${text}`);
+    }
+    return parseScalar(text.slice(start, pos).trim(), line);
+  };
+
+  const result = value('');
+  skip();
+  if (pos < text.length) {
+    throw yamlError(line, `unexpected text after flow collection: ${text.slice(pos)}`);
+  }
+  return result;
+}
+
+function parseInline(text: string, line: number): unknown {
+  return text.startsWith('[') || text.startsWith('{') ? parseFlow(text, line) : parseScalar(text, line);
+}
+
+/** `key: value` with a plain or quoted key */
+const MAPPING_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#\-[{][^:#]*?|-[^\s:#][^:#]*?)\s*:(?:\s+(.*))?$/;
+
+/**
+ * Parse a YAML document limited to what scenarios use (see the module
+ * comment). Throws with the line number on anything else.
+ */
+export function parseYaml(text: string): unknown {
+  const raw = text.replace(/\r\n?/g, '\n').split('\n');
+  const lines: YamlLine[] = [];
+  raw.forEach((source, index) => {
+    if (/^ *\t/.test(source)) {
+      throw yamlError(index + 1, 'tabs are not allowed for indentation');
+    }
+    lines.push({ indent: source.length - source.trimStart().length, text: source.trim(), number: index + 1 });
+  });
+
+  let current = 0;
+  const isContent = (line: YamlLine) => line.text !== '' && !line.text.startsWith('#') && line.text !== '---';
+  const next = (): YamlLine | undefined => {
+    while (current < lines.length && !isContent(lines[current])) current++;
+    return lines[current];
+  };
+  const isItem = (line: YamlLine) => line.text === '-' || line.text.startsWith('- ');
+
+  const blockScalar = (indicator: string, parentIndent: number): string => {
+    const body: string[] = [];
+    let indent: number | undefined;
+    while (current < lines.length) {
+      const line = lines[current];
+      if (line.text !== '') {
+        if (line.indent <= parentIndent) break;
+        indent ??= line.indent;
+      }
+      body.push(raw[line.number - 1].slice(indent ?? 0));
+      current++;
+    }
+    while (body.length > 0 && body[body.length - 1].trim() === '') body.pop();
+    const joined = indicator.startsWith('>')
+      ? body.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ')
+      : body.join('\n');
+    return indicator.endsWith('-') ? joined : `${joined}\n`;
+  };
+
+  /** Value after `key:` or `- `, possibly continuing on deeper lines */
+  const valueOf = (rest: string | undefined, line: YamlLine, parentIndent: number): unknown => {
+    const inline = rest === undefined ? '' : stripComment(rest);
+    if (/^[|>][-+]?$/.test(inline)) {
+      return blockScalar(inline, parentIndent);
+    }
+    if (inline !== '') {
+      return parseInline(inline, line.number);
+    }
+    const following = next();
+    if (following && following.indent > parentIndent) {
+      return block(following.indent);
+    }
+    // Sequences may sit at the same indent as their key
+    if (following && following.indent === parentIndent && isItem(following)) {
+      return sequence(parentIndent);
+    }
+    return null;
+  };
+
+  const sequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    for (let line = next(); line && line.indent === indent && isItem(line); line = next()) {
+      const content = line.text === '-' ? '' : line.text.slice(2).trimStart();
+      if (MAPPING_PATTERN.test(stripComment(content))) {
+        // `- key: value` starts a mapping indented to the content
+        const offset = line.indent + (line.text.length - content.length);
+        lines[current] = { indent: offset, text: content, number: line.number };
+        items.push(mapping(offset));
+      } else {
+        current++;
+        items.push(valueOf(content, line, indent));
+      }
+    }
+    return items;
+  };
+
+  const mapping = (indent: number): Record<string, unknown> => {
+    const map: Record<string, unknown> = {};
+    for (let line = next(); line && line.indent === indent && !isItem(line); line = next()) {
+      const match = MAPPING_PATTERN.exec(stripComment(line.text));
+      if (!match) {
+        throw yamlError(line.number, `expected "key: value", got: ${line.text}`);
+      }
+      const key = String(parseScalar(match[1].trim(), line.number));
+      if (Object.prototype.hasOwnProperty.call(map, key)) {
+        throw yamlError(line.number, `duplicate key: ${key}`);
+      }
+      current++;
+      map[key] = valueOf(match[2], line, indent);
+    }
+    return map;
+  };
+
+  const block = (indent: number): unknown => {
+    const line = next();
+    if (!line) return null;
+    if (isItem(line)) return sequence(indent);
+    if (!MAPPING_PATTERN.test(stripComment(line.text))) {
+      current++;
+      return parseInline(stripComment(line.text), line.number);
+    }
+    return mapping(indent);
+  };
+
+  const first = next();
+  const document = first ? block(first.indent) : null;
+  const leftover = next();
+  if (leftover) {
+    throw yamlError(leftover.number, `unexpected indentation: ${leftover.text}`);
+  }
+  return document;
+}
+
+// =============================================================================
+// Loading and Validation
+// =============================================================================
+
+const ACTION_KINDS = ['click', 'type', 'hover', 'key', 'waitFor'] as const;
+const ASSERTION_KINDS = ['visual', 'baseline', 'interactive', 'accessibility'] as const;
+const STATES: InteractiveStateConfig['state'][] = ['hover', 'focus', 'active', 'disabled'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireString(record: Record<string, unknown>, key: string, where: string): string {
+  const value = record[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`${where}: "${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Find the one kind key an action or assertion is written with
+ */
+function kindOf<K extends string>(record: Record<string, unknown>, kinds: readonly K[], where: string): K {
+  const found = kinds.filter(kind => kind in record);
+  if (found.length !== 1) {
+    throw new Error(`${where}: expected exactly one of ${kinds.join(', ')}, got ${Object.keys(record).join(', ') || 'nothing'}`);
+  }
+  return found[0];
+}
+
+function validateViewports(value: unknown, where: string): ScenarioViewport[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    throw new Error(`${where}: "viewports" must be a list`);
+  }
+  return value.map((viewport, i) => {
+    if (typeof viewport === 'string') {
+      resolveViewport(viewport);
+      return viewport;
+    }
+    if (isRecord(viewport) && typeof viewport.width === 'number' && typeof viewport.height === 'number') {
+      return {
+        name: typeof viewport.name === 'string' ? viewport.name : `${viewport.width}x${viewport.height}`,
+        width: viewport.width,
+        height: viewport.height,
+      };
+    }
+    throw new Error(`${where}.viewports[${i}]: expected a preset name or { name, width, height }`);
+  });
+}
+
+function validateAction(value: unknown, where: string): ScenarioAction {
+  if (!isRecord(value)) {
+    throw new Error(`${where}: expected a mapping such as { click: "#save" }`);
+  }
+  const kind = kindOf(value, ACTION_KINDS, where);
+  const target = requireString(value, kind, where);
+  switch (kind) {
+    case 'type':
+      if (typeof value.text !== 'string') {
+        throw new Error(`${where}: "type" needs the text to enter in "text"`);
+      }
+      return { type: target, text: value.text };
+    case 'waitFor':
+      return typeof value.timeout === 'number' ? { waitFor: target, timeout: value.timeout } : { waitFor: target };
+    case 'click':
+      return { click: target };
+    case 'hover':
+      return { hover: target };
+    case 'key':
+      return { key: target };
+  }
+}
+
+function validateMask(value: unknown, where: string): MaskTarget[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    throw new Error(`${where}: "mask" must be a list of selectors or rectangles`);
+  }
+  return value as MaskTarget[];
+}
+
+function validateAssertion(value: unknown, where: string): ScenarioAssertion {
+  if (!isRecord(value)) {
+    throw new Error(`${where}: expected a mapping such as { visual: "Clear hierarchy" }`);
+  }
+  const kind = kindOf(value, ASSERTION_KINDS, where);
+  const first = requireString(value, kind, where);
+  const selector = typeof value.selector === 'string' ? value.selector : undefined;
+  switch (kind) {
+    case 'visual':
+      return {
+        visual: first,
+        name: typeof value.name === 'string' ? value.name : undefined,
+        selector,
+        mask: validateMask(value.mask, where),
+      };
+    case 'baseline':
+      return {
+        baseline: first,
+        criteria: requireString(value, 'criteria', where),
+        selector,
+        mask: validateMask(value.mask, where),
+      };
+    case 'interactive': {
+      const state = value.state as InteractiveStateConfig['state'];
+      if (!STATES.includes(state)) {
+        throw new Error(`${where}: "state" must be one of ${STATES.join(', ')}`);
+      }
+      return { interactive: first, target: requireString(value, 'target', where), state };
+    }
+    case 'accessibility':
+      return { accessibility: first };
+  }
+}
+
+/**
+ * Check a parsed scenario and normalise it. Errors name the offending
+ * field, e.g. `pages[0].actions[2]: "type" needs the text to enter in "text"`.
+ */
+export function validateScenario(value: unknown): VisualScenario {
+  if (!isRecord(value)) {
+    throw new Error('Scenario must be a mapping with name and pages');
+  }
+  const name = requireString(value, 'name', 'scenario');
+  if (!Array.isArray(value.pages) || value.pages.length === 0) {
+    throw new Error('scenario: "pages" must be a non-empty list');
+  }
+
+  const pages = value.pages.map((page, i): ScenarioPage => {
+    const where = `pages[${i}]`;
+    if (!isRecord(page)) {
+      throw new Error(`${where}: expected a mapping with path and assertions`);
+    }
+    const actions = page.actions ?? [];
+    const assertions = page.assertions ?? [];
+    if (!Array.isArray(actions)) {
+      throw new Error(`${where}: "actions" must be a list`);
+    }
+    if (!Array.isArray(assertions) || assertions.length === 0) {
+      throw new Error(`${where}: "assertions" must be a non-empty list`);
+    }
+    return {
+      name: typeof page.name === 'string' ? page.name : undefined,
+      path: requireString(page, 'path', where),
+      viewports: validateViewports(page.viewports, where),
+      actions: actions.map((action, j) => validateAction(action, `${where}.actions[${j}]`)),
+      assertions: assertions.map((assertion, j) => validateAssertion(assertion, `${where}.assertions[${j}]`)),
+    };
+  });
+
+  return {
+    name,
+    baseUrl: typeof value.baseUrl === 'string' ? value.baseUrl : undefined,
+    viewports: validateViewports(value.viewports, 'scenario'),
+    pages,
+  };
+}
+
+/**
+ * Parse scenario text. JSON is detected by a leading `{`; anything else
+ * is read as YAML.
+ */
+export function parseScenario(text: string): VisualScenario {
+  const trimmed = text.trimStart();
+  return validateScenario(trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(text));
+}
+
+/**
+ * Read and validate a scenario file (.yaml, .yml or .json)
+ */
+export function loadScenario(filePath: string): VisualScenario {
+  try {
+    return parseScenario(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Look up a viewport preset by key ('tabletLandscape') or name
+ * ('tablet-landscape'); custom viewports are returned as they are
+ */
+export function resolveViewport(viewport: ScenarioViewport): Viewport {
+  if (typeof viewport !== 'string') {
+    return viewport;
+  }
+  const preset = VIEWPORTS[viewport] ?? Object.values(VIEWPORTS).find(v => v.name === viewport);
+  if (!preset) {
+    throw new Error(`Unknown viewport: ${viewport} (presets: ${Object.values(VIEWPORTS).map(v => v.name).join(', ')})`);
+  }
+  return preset;
+}
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+function describeAssertion(assertion: ScenarioAssertion): { kind: string; criteria: string } {
+  if ('visual' in assertion) return { kind: 'visual', criteria: assertion.visual };
+  if ('baseline' in assertion) return { kind: 'baseline', criteria: assertion.criteria };
+  if ('interactive' in assertion) return { kind: 'interactive', criteria: assertion.interactive };
+  return { kind: 'accessibility', criteria: assertion.accessibility };
+}
+
+async function performAction(session: VisualTestContext, action: ScenarioAction): Promise<void> {
+  if ('click' in action) await session.click(action.click);
+  else if ('type' in action) await session.type(action.type, action.text);
+  else if ('hover' in action) await session.hover(action.hover);
+  else if ('key' in action) await session.pressKey(action.key);
+  else await session.waitFor(action.waitFor, action.timeout);
+}
+
+async function performAssertion(
+  session: VisualTestContext,
+  assertion: ScenarioAssertion,
+  name: string
+): Promise<VisualAssertionResult> {
+  if ('visual' in assertion) {
+    return session.assertVisual(name, assertion.visual, { selector: assertion.selector, mask: assertion.mask });
+  }
+  if ('baseline' in assertion) {
+    return session.assertBaseline(assertion.baseline, assertion.criteria, {
+      selector: assertion.selector,
+      mask: assertion.mask,
+    });
+  }
+  if ('interactive' in assertion) {
+    return session.assertInteractiveState({
+      target: assertion.target,
+      state: assertion.state,
+      criteria: assertion.interactive,
+    });
+  }
+  return session.assertAccessibility(assertion.accessibility);
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario';
+}
+
+/**
+ * Run every page of a scenario at every viewport and write a JSON summary.
+ * A page that fails to load or whose actions fail records its assertions
+ * as errors and the run moves on to the next page; an assertion that
+ * throws is recorded as an error and the next assertion still runs.
+ */
+export async function runScenario(
+  scenario: VisualScenario,
+  options: ScenarioRunOptions = {}
+): Promise<ScenarioSummary> {
+  const baseUrl = options.baseUrl ?? scenario.baseUrl;
+  if (!baseUrl) {
+    throw new Error(`Scenario "${scenario.name}" has no baseUrl; set one in the file or pass baseUrl`);
+  }
+  const outputDir = options.outputDir ?? './tmp/visual-testing';
+  const session = new VisualTestContext({ ...options, baseUrl, outputDir });
+  const results: ScenarioAssertionResult[] = [];
+  let opened = false;
+
+  try {
+    for (const page of scenario.pages) {
+      const pageName = page.name ?? page.path;
+      const viewports: (Viewport | undefined)[] = (page.viewports ?? scenario.viewports ?? [undefined])
+        .map(viewport => viewport === undefined ? undefined : resolveViewport(viewport));
+
+      for (const viewport of viewports) {
+        const viewportName = viewport?.name ?? 'default';
+        let setupError: string | undefined;
+        try {
+          if (opened) {
+            await session.navigate(page.path);
+          } else {
+            await session.open(page.path);
+            opened = true;
+          }
+          if (viewport) {
+            await session.setViewport(viewport);
+          }
+          for (const action of page.actions ?? []) {
+            await performAction(session, action);
+          }
+        } catch (error) {
+          setupError = error instanceof Error ? error.message : String(error);
+        }
+
+        for (const [index, assertion] of page.assertions.entries()) {
+          const { kind, criteria } = describeAssertion(assertion);
+          const name = 'visual' in assertion && assertion.name
+            ? assertion.name
+            : `${slug(pageName)}-${index}${viewport ? `@${viewport.name}` : ''}`;
+          let result: VisualAssertionResult;
+          if (setupError) {
+            result = { pass: false, outcome: 'error', feedback: `Page setup failed: ${setupError}` };
+          } else {
+            try {
+              result = await performAssertion(session, assertion, name);
+            } catch (error) {
+              const message = error instanceof Error ? error.message : String(error);
+              result = { pass: false, outcome: 'error', feedback: `Assertion failed: ${message}` };
+            }
+          }
+          results.push({ page: pageName, viewport: viewportName, kind, criteria, result });
+        }
+      }
+    }
+  } finally {
+    await session.close();
+  }
+
+  const summaryPath = options.summaryPath ?? path.join(outputDir, `${slug(scenario.name)}-summary.json`);
+  const summary: ScenarioSummary = {
+    scenario: scenario.name,
+    total: results.length,
+    passed: results.filter(r => r.result.pass).length,
+    failed: results.filter(r => !r.result.pass && r.result.outcome !== 'error').length,
+    errors: results.filter(r => !r.result.pass && r.result.outcome === 'error').length,
+    results,
+    summaryPath,
+  };
+  fs.mkdirSync(path.dirname(summaryPath), { recursive: true });
+  fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2) + '\n');
+  return summary;
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+const USAGE = `Usage: visual-scenarios <scenario.yaml|json>... [options]
+
+Options:
+  --base-url <url>  Override the scenarios' baseUrl
+  --dir <path>      Visual testing output directory (default: ./tmp/visual-testing)`;
+
+/**
+ * Run the visual-scenarios command line. Returns the process exit code:
+ * 0 when every assertion passed, 1 otherwise.
+ */
+export async function runVisualScenarios(
+  argv: string[],
+  log: (line: string) => void = console.log
+): Promise<number> {
+  const files: string[] = [];
+  const options: ScenarioRunOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--base-url' && argv[i + 1]) {
+      options.baseUrl = argv[++i];
+    } else if (arg === '--dir' && argv[i + 1]) {
+      options.outputDir = argv[++i];
+    } else if (arg === 'help' || arg === '--help' || arg === '-h') {
+      log(USAGE);
+      return 0;
+    } else if (arg.startsWith('--')) {
+      log(`Unknown argument: ${arg}\n\n${USAGE}`);
+      return 1;
+    } else {
+      files.push(arg);
+    }
+  }
+
+  if (files.length === 0) {
+    log(USAGE);
+    return 1;
+  }
+
+  let failures = 0;
+  for (const file of files) {
+    let summary: ScenarioSummary;
+    try {
+      summary = await runScenario(loadScenario(file), options);
+    } catch (error) {
+      log(`✗ ${error instanceof Error ? error.message : String(error)}`);
+      failures++;
+      continue;
+    }
+
+    log(`${summary.scenario} (${file})`);
+    for (const { page, viewport, kind, result } of summary.results) {
+      const feedback = result.pass ? '' : `: ${result.feedback ?? result.outcome}`;
+      log(`  ${result.pass ? '✓' : '✗'} ${page} @ ${viewport} ${kind}${feedback}`);
+    }
+    log(
+      `  ${summary.passed}/${summary.total} passed, ${summary.failed} failed, ` +
+        `${summary.errors} errors. Summary: ${summary.summaryPath}`
+    );
+    failures += summary.failed + summary.errors;
+  }
+  return failures > 0 ? 1 : 0;
+}
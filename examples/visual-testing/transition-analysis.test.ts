@@ -0,0 +1,125 @@
+/**
+ * Transition Analysis - Test Examples
+ *
+ * Shows how a frame sequence tells smooth motion apart from a layout jump,
+ * and what assertTransition sends to the judge. No browser or API key needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fakeDriver } from './fake-driver.js';
+import { composeFilmstrip, decodePng, resizeImage, type RgbaImage } from './pixel-diff.js';
+import { analyzeTransition } from './transition-analysis.js';
+import { VisualTestContext } from './visual-testing.js';
+import { scriptedProvider } from '../llm-review/judge-provider.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * White 100x20 frame with a black 10x10 box at x
+ */
+function frame(x: number): RgbaImage {
+  const data = new Uint8Array(100 * 20 * 4).fill(255);
+  for (let y = 5; y < 15; y++) {
+    for (let bx = x; bx < x + 10; bx++) {
+      data.set([0, 0, 0, 255], (y * 100 + bx) * 4);
+    }
+  }
+  return { width: 100, height: 20, data };
+}
+
+const at = (positions: number[]) => positions.map((x, i) => ({ image: frame(x), timeMs: i * 100 }));
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+describe('Transition analysis', () => {
+  it('spreads smooth motion across frames without jumps', () => {
+    const analysis = analyzeTransition(at([0, 5, 10, 15, 20, 20]));
+
+    expect(analysis.jumps).toEqual([]);
+    expect(analysis.frames.map(f => f.deltaRatio > 0)).toEqual([false, true, true, true, true, false]);
+    expect(analysis.durationMs).toBe(400);
+    expect(analysis.settled).toBe(true);
+  });
+
+  it('flags a step that holds most of the change as a jump', () => {
+    const analysis = analyzeTransition(at([0, 60, 60, 62, 62, 62]));
+
+    expect(analysis.jumps).toHaveLength(1);
+    expect(analysis.jumps[0]).toMatchObject({ frame: 1, timeMs: 100 });
+    expect(analysis.jumps[0].share).toBeGreaterThan(0.8);
+    expect(analysis.jumps[0].shifts.length).toBeGreaterThan(0);
+    expect(analysis.durationMs).toBe(300);
+  });
+
+  it('reports a transition still running at the last frame', () => {
+    const analysis = analyzeTransition(at([0, 2, 4, 6]));
+
+    expect(analysis.settled).toBe(false);
+    expect(analysis.durationMs).toBe(300);
+  });
+});
+
+// =============================================================================
+// Filmstrip
+// =============================================================================
+
+describe('Filmstrip', () => {
+  it('averages pixels when shrinking', () => {
+    const small = resizeImage(frame(0), 50);
+
+    expect([small.width, small.height]).toEqual([50, 10]);
+    expect(Array.from(small.data.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+    expect(Array.from(small.data.subarray((3 * 50 + 2) * 4, (3 * 50 + 2) * 4 + 4))).toEqual([0, 0, 0, 255]);
+  });
+
+  it('lays frames out left to right with gaps', () => {
+    const strip = composeFilmstrip([frame(0), frame(10), frame(20)], 50, 4);
+
+    expect([strip.width, strip.height]).toEqual([3 * 50 + 4 * 4, 10 + 2 * 4]);
+  });
+});
+
+// =============================================================================
+// assertTransition
+// =============================================================================
+
+describe('assertTransition', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-transition-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('judges a filmstrip with frame timing and detected jumps', async () => {
+    const positions = [0, 60, 60, 60];
+    let shot = 0;
+    const driver = fakeDriver({ render: () => frame(positions[shot++]) });
+    const provider = scriptedProvider(['{"pass": false, "feedback": "Menu snaps open"}']);
+    const session = new VisualTestContext({ baseUrl: 'http://app.test', outputDir, driver, provider });
+
+    const result = await session.assertTransition(async () => {}, 'Menu slides in', { frames: 3, intervalMs: 1 });
+
+    expect(result).toMatchObject({ pass: false, feedback: 'Menu snaps open' });
+    expect(result.transition?.jumps.map(j => j.frame)).toEqual([1]);
+    expect(result.transition?.frames).toHaveLength(4);
+
+    const request = provider.calls[0];
+    const prompt = request.content.find(block => block.type === 'text');
+    expect(prompt?.type === 'text' && prompt.text).toContain('Detected jumps: frame 1');
+
+    const { screenshotPath = '' } = result;
+    const filmstrip = decodePng(fs.readFileSync(screenshotPath));
+    expect(filmstrip.width).toBe(4 * 100 + 5 * 8);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Transition Analysis for Visual Testing
+ *
+ * Analyses a captured frame sequence instead of a single end state:
+ * frame-to-frame pixel deltas, the boxes that moved between frames
+ * (layout shifts), jumps where most of the change lands in one step, and
+ * how long the transition took to settle. assertTransition sends these
+ * numbers to the judge together with a filmstrip of the frames.
+ *
+ * Usage:
+ *   const analysis = analyzeTransition([
+ *     { image: decodePng(before), timeMs: 0 },
+ *     { image: decodePng(frame1), timeMs: 104 },
+ *     ...
+ *   ]);
+ *   analysis.jumps;       // frames where the layout jumped
+ *   analysis.durationMs;  // time until the last visible change
+ */
+
+import { diffImages, type DiffRegion, type RgbaImage } from './pixel-diff.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CapturedFrame {
+  image: RgbaImage;
+
+  /** Capture time in ms since the trigger started (the before frame is 0) */
+  timeMs: number;
+}
+
+export interface TransitionAnalysisOptions {
+  /** Per-pixel color tolerance, 0 (exact) to 1 (default: 0.1) */
+  threshold?: number;
+
+  /**
+   * Share of all the transition's changed pixels (0-1) that a single step
+   * must hold to count as a jump rather than smooth motion (default: 0.5)
+   */
+  jumpShare?: number;
+
+  /** Steps changing less than this share of the frame are never jumps (default: 0.001) */
+  minJumpRatio?: number;
+}
+
+export interface TransitionFrame {
+  /** Position in the sequence; 0 is the frame before the trigger */
+  index: number;
+
+  timeMs: number;
+
+  /** Changed pixels / total pixels relative to the previous frame (0 for the first) */
+  deltaRatio: number;
+
+  /** Areas that changed since the previous frame, largest first */
+  shifts: DiffRegion[];
+}
+
+export interface TransitionJump {
+  /** Frame at which the jump was seen */
+  frame: number;
+
+  timeMs: number;
+
+  /** Share of the transition's total change that happened in this one step */
+  share: number;
+
+  shifts: DiffRegion[];
+}
+
+export interface TransitionAnalysis {
+  frames: TransitionFrame[];
+
+  jumps: TransitionJump[];
+
+  /** Time from the trigger to the last frame that still changed */
+  durationMs: number;
+
+  /** False when the last frame still differed from the one before it */
+  settled: boolean;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Compare each frame with the previous one and summarise the motion.
+ * Throws if the frames differ in size.
+ */
+export function analyzeTransition(
+  captured: CapturedFrame[],
+  options: TransitionAnalysisOptions = {}
+): TransitionAnalysis {
+  const { threshold = 0.1, jumpShare = 0.5, minJumpRatio = 0.001 } = options;
+
+  const frames: TransitionFrame[] = [];
+  const changed: number[] = [];
+  captured.forEach((frame, index) => {
+    if (index === 0) {
+      frames.push({ index, timeMs: frame.timeMs, deltaRatio: 0, shifts: [] });
+      changed.push(0);
+      return;
+    }
+    const diff = diffImages(captured[index - 1].image, frame.image, { threshold, heatmap: false });
+    frames.push({ index, timeMs: frame.timeMs, deltaRatio: diff.ratio, shifts: diff.regions });
+    changed.push(diff.changedPixels);
+  });
+
+  const totalChanged = changed.reduce((sum, n) => sum + n, 0);
+  const jumps: TransitionJump[] = frames
+    .filter(frame => totalChanged > 0 && frame.deltaRatio >= minJumpRatio)
+    .map(frame => ({
+      frame: frame.index,
+      timeMs: frame.timeMs,
+      share: changed[frame.index] / totalChanged,
+      shifts: frame.shifts,
+    }))
+    .filter(jump => jump.share >= jumpShare);
+
+  const moving = frames.filter(frame => frame.deltaRatio > 0);
+
+  return {
+    frames,
+    jumps,
+    durationMs: moving.length > 0 ? moving[moving.length - 1].timeMs : 0,
+    settled: frames[frames.length - 1].deltaRatio === 0,
+  };
+}
+
+/**
+ * Describe an analysis for the judge prompt
+ */
+export function describeTransition(analysis: TransitionAnalysis): string {
+  const lines = analysis.frames.map(frame => {
+    if (frame.index === 0) {
+      return '- Frame 0 at 0ms: before the trigger';
+    }
+    const shifts = frame.shifts
+      .slice(0, 3)
+      .map(r => `${r.width}x${r.height} at (${r.x}, ${r.y})`)
+      .join('; ');
+    return `- Frame ${frame.index} at ${Math.round(frame.timeMs)}ms: ` +
+      `${(frame.deltaRatio * 100).toFixed(2)}% of pixels changed` +
+      (shifts ? ` (${shifts}${frame.shifts.length > 3 ? '; ...' : ''})` : '');
+  });
+
+  const jumps = analysis.jumps.length > 0
+    ? analysis.jumps
+        .map(j => `frame ${j.frame} (${Math.round(j.share * 100)}% of all change in one step)`)
+        .join(', ')
+    : 'none';
+
+  return `${lines.join('\n')}
+Detected jumps: ${jumps}
+Duration: ${Math.round(analysis.durationMs)}ms${analysis.settled ? '' : ' (still changing at the last frame)'}`;
+}
@@ -0,0 +1,21 @@
+/**
+ * visual-baselines CLI
+ *
+ * Review pending baseline screenshots recorded by assertBaseline.
+ *
+ * Usage:
+ *   npm run visual-baselines -- list
+ *   npm run visual-baselines -- review               (one by one, interactive)
+ *   npm run visual-baselines -- approve <name[@viewport]>... | --all
+ *   npm run visual-baselines -- reject <name[@viewport]>... | --all
+ *   npm run visual-baselines -- prune [--dry-run]
+ *
+ * Options:
+ *   --dir <path>  Visual testing output directory (default: ./tmp/visual-testing)
+ */
+
+import { runVisualBaselines } from './baseline-store.js';
+
+runVisualBaselines(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,56 @@
+/**
+ * Visual Matchers - Test Examples
+ *
+ * Shows how failing visual judgments surface their feedback and screenshot
+ * path in the assertion message, using a scripted judge so no API key or
+ * browser is needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { scriptedProvider } from '../llm-review/judge-provider.js';
+import './visual-matchers.js';
+
+// =============================================================================
+// Screenshots
+// =============================================================================
+
+describe('Visual matchers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-matchers-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports the screenshot path when toLookLike fails', async () => {
+    const screenshot = path.join(dir, 'hero.png');
+    fs.writeFileSync(screenshot, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+    await expect(
+      expect(screenshot).toLookLike('Single call to action', {
+        provider: scriptedProvider(['{"pass": false, "feedback": "Three competing buttons"}']),
+      })
+    ).rejects.toThrow(`Screenshot: ${screenshot}`);
+  });
+
+  it('delegates toMatchVisualBaseline to the session', async () => {
+    const session = {
+      assertBaseline: async (name: string) => ({
+        pass: false,
+        outcome: 'fail' as const,
+        feedback: 'Sidebar moved',
+        screenshotPath: `${name}-current.png`,
+      }),
+    };
+
+    await expect(
+      expect(session).toMatchVisualBaseline('dashboard', 'No layout changes')
+    ).rejects.toThrow(/baseline "dashboard"[\s\S]*Sidebar moved[\s\S]*dashboard-current\.png/);
+  });
+});
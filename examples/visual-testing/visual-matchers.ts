@@ -0,0 +1,91 @@
+/**
+ * Vitest Matchers for Visual Assertions
+ *
+ * Wraps performVisualAssertion and assertBaseline in expect() matchers so
+ * a failing judgment prints the judge's feedback and screenshot path
+ * instead of a bare `expected false to be true`. Importing this module
+ * also registers toSatisfyCriteria from llm-review/matchers.
+ *
+ * Usage (import once per test file, or from vitest setupFiles):
+ *   import './visual-matchers';
+ *
+ *   await expect('./tmp/hero.png').toLookLike('Single clear call to action');
+ *   await expect(session).toMatchVisualBaseline('dashboard', 'No layout shifts');
+ *
+ * All matchers are async and must be awaited.
+ */
+
+import { expect } from 'vitest';
+import { toMatcherResult, type MatcherResult } from '../llm-review/matchers.js';
+import {
+  performVisualAssertion,
+  type VisualJudgeOptions,
+  type VisualTestContext,
+} from './visual-testing.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Judge settings for toLookLike (default intelligence: 'smart') */
+export type VisualMatcherOptions = Partial<VisualJudgeOptions>;
+
+interface VisualMatchers<R = unknown> {
+  /** Judge an existing screenshot against visual criteria */
+  toLookLike(criteria: string, options?: VisualMatcherOptions): Promise<R>;
+
+  /** Compare a session's current page with a stored baseline */
+  toMatchVisualBaseline(name: string, criteria: string): Promise<R>;
+}
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends VisualMatchers<T> {}
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export const visualMatchers = {
+  async toLookLike(
+    this: { isNot: boolean },
+    received: unknown,
+    criteria: string,
+    options: VisualMatcherOptions = {}
+  ): Promise<MatcherResult> {
+    if (typeof received !== 'string') {
+      throw new TypeError(`toLookLike expects a screenshot path, received ${typeof received}`);
+    }
+
+    const result = await performVisualAssertion(received, criteria, {
+      ...options,
+      intelligence: options.intelligence || 'smart',
+    });
+    return toMatcherResult(
+      result,
+      `expected ${received} ${this.isNot ? 'not ' : ''}to look like: ${criteria}`,
+      this.isNot
+    );
+  },
+
+  async toMatchVisualBaseline(
+    this: { isNot: boolean },
+    received: unknown,
+    name: string,
+    criteria: string
+  ): Promise<MatcherResult> {
+    const session = received as Pick<VisualTestContext, 'assertBaseline'> | undefined;
+    if (typeof session?.assertBaseline !== 'function') {
+      throw new TypeError('toMatchVisualBaseline expects a VisualTestContext session');
+    }
+
+    const result = await session.assertBaseline(name, criteria);
+    return toMatcherResult(
+      result,
+      `expected page ${this.isNot ? 'not ' : ''}to match visual baseline "${name}": ${criteria}`,
+      this.isNot
+    );
+  },
+};
+
+expect.extend(visualMatchers);
@@ -0,0 +1,15 @@
+/**
+ * visual-scenarios CLI
+ *
+ * Run declarative visual test scenarios (YAML or JSON) through
+ * VisualTestContext and print a summary per scenario.
+ *
+ * Usage:
+ *   npm run visual-scenarios -- scenarios/*.yaml [--base-url <url>] [--dir <path>]
+ */
+
+import { runVisualScenarios } from './scenario-runner.js';
+
+runVisualScenarios(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
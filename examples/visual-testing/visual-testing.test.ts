@@ -10,17 +10,29 @@
  * - The ANTHROPIC_API_KEY environment variable set
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import {
   VisualTestContext,
   createVisualTestSession,
   assertPageVisual,
   assertResponsiveDesign,
   assertPageAccessibility,
+  createPageJudge,
+  createSessionPool,
+  performVisualAssertion,
+  updateBaseline,
   VIEWPORTS,
   VisualAssertionResult,
 } from './visual-testing.js';
+import type { BrowserDriver } from './browser-driver.js';
+import { fakeDriver } from './fake-driver.js';
+import { decodePng, encodePng } from './pixel-diff.js';
+import { scriptedProvider } from '../llm-review/judge-provider.js';
+import { readRunJournal, setRunJournal } from '../llm-review/run-journal.js';
+import { setJudgmentCache } from '../llm-review/judgment-cache.js';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // =============================================================================
 // Test Configuration
@@ -324,6 +336,490 @@ describe('Visual regression', () => {
   });
 });
 
+// =============================================================================
+// Masked and Cropped Screenshots (deterministic, no browser needed)
+// =============================================================================
+
+/**
+ * Fake driver rendering a 40x20 white page with a "clock" at (30, 0, 10x5)
+ * whose color changes on every screenshot, like a live timestamp
+ */
+function fakeClockDriver(): BrowserDriver {
+  let tick = 0;
+  return fakeDriver({
+    render() {
+      const data = new Uint8Array(40 * 20 * 4).fill(255);
+      tick++;
+      for (let y = 0; y < 5; y++) {
+        for (let x = 30; x < 40; x++) {
+          data.set([tick * 40, 0, 0, 255], (y * 40 + x) * 4);
+        }
+      }
+      return { width: 40, height: 20, data };
+    },
+    async boundingBoxes(selector) {
+      if (selector === '.clock') return [{ x: 30, y: 0, width: 10, height: 5 }];
+      if (selector === 'header') return [{ x: 20, y: 0, width: 20, height: 10 }];
+      return [];
+    },
+  });
+}
+
+describe('Masked baselines', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-masks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('crops to an element and blanks masked areas', async () => {
+    const session = new VisualTestContext({ baseUrl: 'http://app.test', outputDir, driver: fakeClockDriver() });
+
+    const shot = decodePng(
+      fs.readFileSync(await session.screenshot('header.png', { selector: 'header', mask: ['.clock'] }))
+    );
+
+    expect([shot.width, shot.height]).toEqual([20, 10]);
+    expect(Array.from(shot.data.subarray((0 * 20 + 10) * 4, (0 * 20 + 10) * 4 + 4))).toEqual([255, 0, 255, 255]);
+    expect(Array.from(shot.data.subarray((9 * 20 + 10) * 4, (9 * 20 + 10) * 4 + 4))).toEqual([255, 255, 255, 255]);
+  });
+
+  it('records masks with the baseline and reapplies them on later runs', async () => {
+    const provider = scriptedProvider([]);
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeClockDriver(),
+      provider,
+    });
+
+    const first = await session.assertBaseline('home', 'No changes', { mask: ['.clock'] });
+    // The mask isn't passed again: it comes from the baseline metadata
+    const second = await session.assertBaseline('home', 'No changes');
+
+    expect(first.feedback).toContain('Baseline created');
+    expect(second).toMatchObject({ pass: true, pixelDiff: { changedPixels: 0 } });
+    expect(provider.calls).toHaveLength(0);
+    expect(JSON.parse(fs.readFileSync(path.join(outputDir, 'baselines', 'manifest.json'), 'utf-8')))
+      .toMatchObject({ baselines: { 'home@default': { mask: ['.clock'], browser: 'fake' } } });
+  });
+
+  it('fails in strict mode instead of creating a baseline', async () => {
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeClockDriver(),
+      strictBaselines: true,
+    });
+
+    const result = await session.assertBaseline('home', 'No changes');
+
+    expect(result).toMatchObject({ pass: false, outcome: 'fail' });
+    expect(result.feedback).toContain('visual-baselines approve home@default');
+    expect(fs.existsSync(path.join(outputDir, 'baselines', 'pending', 'home@default.png'))).toBe(true);
+  });
+
+  it('keeps failed comparisons pending for review', async () => {
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeClockDriver(),
+      provider: scriptedProvider(['{"pass": false, "feedback": "Clock changed color"}']),
+      diffThreshold: 0,
+    });
+
+    await session.assertBaseline('home', 'No changes');
+    const result = await session.assertBaseline('home', 'No changes');
+
+    expect(result).toMatchObject({ pass: false, feedback: 'Clock changed color' });
+    expect(JSON.parse(fs.readFileSync(path.join(outputDir, 'baselines', 'manifest.json'), 'utf-8')).pending)
+      .toMatchObject({ 'home@default': { reason: 'changed', diffFile: 'pending/home@default-diff.png' } });
+  });
+
+  it('updates a baseline from the current screenshot, or approves what is pending', async () => {
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeClockDriver(),
+      provider: scriptedProvider(['{"pass": true}', '{"pass": false, "feedback": "Clock changed color"}']),
+      diffThreshold: 0,
+    });
+    const baselinePath = path.join(outputDir, 'baselines', 'home@default.png');
+    const currentPath = path.join(outputDir, 'home@default-current.png');
+    const manifest = () => JSON.parse(fs.readFileSync(path.join(outputDir, 'baselines', 'manifest.json'), 'utf-8'));
+
+    await session.assertBaseline('home', 'No changes');
+    await session.assertBaseline('home', 'No changes');
+    updateBaseline('home', outputDir);
+    expect(fs.readFileSync(baselinePath)).toEqual(fs.readFileSync(currentPath));
+
+    await session.assertBaseline('home', 'No changes');
+    expect(manifest().pending).toHaveProperty(['home@default']);
+    updateBaseline('home', outputDir);
+    expect(manifest().pending).toEqual({});
+    expect(fs.readFileSync(baselinePath)).toEqual(fs.readFileSync(currentPath));
+
+    expect(() => updateBaseline('checkout', outputDir)).toThrow('Current screenshot not found for baseline: checkout');
+  });
+
+  it('journals baseline comparisons with baseline, current and diff', async () => {
+    const journal = path.join(outputDir, 'journal.ndjson');
+    setRunJournal(journal);
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeClockDriver(),
+      provider: scriptedProvider(['{"pass": false, "feedback": "Clock changed color"}']),
+      diffThreshold: 0,
+    });
+
+    try {
+      await session.assertBaseline('home', 'No changes');
+      await session.assertBaseline('home', 'No changes');
+    } finally {
+      setRunJournal(undefined);
+    }
+
+    const [created, compared] = readRunJournal(journal);
+    expect(created).toMatchObject({ kind: 'visual', name: 'home@default', feedback: 'Baseline created (first run)' });
+    expect(created.model).toBeUndefined();
+    expect(compared).toMatchObject({
+      name: 'home@default',
+      outcome: 'fail',
+      model: 'claude-sonnet-4-20250514',
+      baselinePath: path.join(outputDir, 'baselines', 'home@default.png'),
+      screenshotPath: path.join(outputDir, 'home@default-current.png'),
+      diffPath: path.join(outputDir, 'home@default-diff.png'),
+    });
+  });
+});
+
+// =============================================================================
+// Keyboard Navigation Checks (deterministic, no browser needed)
+// =============================================================================
+
+/**
+ * Fake driver whose focus moves to the next selector in `order` on every
+ * key press. Elements are 20px boxes in a row on a 200x40 page.
+ */
+function fakeFocusDriver(order: string[]): BrowserDriver {
+  let position = -1;
+  return fakeDriver({
+    render: () => ({ width: 200, height: 40, data: new Uint8Array(200 * 40 * 4).fill(255) }),
+    async pressKey() {
+      position = Math.min(position + 1, order.length - 1);
+    },
+    async focusedElement(selector) {
+      if (position < 0) return undefined;
+      const current = order[position];
+      return {
+        tag: current.split('.')[0],
+        description: current,
+        rect: { x: 20 * order.indexOf(current), y: 10, width: 20, height: 20 },
+        matches: selector === undefined ? undefined : selector === current,
+      };
+    },
+  });
+}
+
+describe('Keyboard navigation checks', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-keyboard-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('fails with the step index when focus lands elsewhere', async () => {
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeFocusDriver(['a.logo', 'button.cta']),
+      provider: scriptedProvider([]),
+    });
+
+    const result = await session.assertKeyboardNavigation(
+      [
+        { key: 'Tab', expectedFocus: 'a.logo' },
+        { key: 'Tab', expectedFocus: 'a.nav-link' },
+      ],
+      'Logical tab order'
+    );
+
+    expect(result).toMatchObject({ pass: false, outcome: 'fail' });
+    expect(result.feedback).toBe('Step 1 (Tab): expected focus on a.nav-link, got button.cta');
+    expect(result.keyboard?.map(step => step.issue)).toEqual([undefined, 'unexpected-focus']);
+  });
+
+  it('reports a focus trap when Tab stops moving focus', async () => {
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeFocusDriver(['a.logo', 'input.search']),
+      provider: scriptedProvider([]),
+    });
+
+    const result = await session.assertKeyboardNavigation(
+      [{ key: 'Tab' }, { key: 'Tab' }, { key: 'Tab' }],
+      'All controls reachable'
+    );
+
+    expect(result.feedback).toBe('Step 2 (Tab): focus trapped on input.search');
+    expect(result.keyboard?.[2]).toMatchObject({ issue: 'focus-trap', focused: { description: 'input.search' } });
+  });
+
+  it('judges focus visibility on a per-step trail once focus order checks out', async () => {
+    const provider = scriptedProvider(['{"pass": true}']);
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeFocusDriver(['a.logo', 'button.cta']),
+      provider,
+    });
+
+    const result = await session.assertKeyboardNavigation(
+      [
+        { key: 'Tab', expectedFocus: 'a.logo' },
+        { key: 'Tab', expectedFocus: 'button.cta' },
+      ],
+      'Focus ring visible'
+    );
+
+    expect(result.pass).toBe(true);
+    expect(result.keyboard?.map(step => path.basename(step.screenshotPath))).toEqual([
+      'keyboard-nav-0.png',
+      'keyboard-nav-1.png',
+    ]);
+    const prompt = provider.calls[0].content.find(block => block.type === 'text');
+    expect(prompt?.type === 'text' && prompt.text).toContain('Panel 2: after Tab, focus on button.cta');
+  });
+});
+
+// =============================================================================
+// Session Pool (deterministic, no browser needed)
+// =============================================================================
+
+describe('Session pool', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-pool-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('runs up to size sessions at once, each in its own named browser session', async () => {
+    const opened: string[] = [];
+    const closed: string[] = [];
+    let active = 0;
+    let peak = 0;
+    const driver = (session: string) => fakeDriver({
+      async open(url) {
+        opened.push(`${session} ${url}`);
+      },
+      async screenshot(filePath) {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        active--;
+        fs.writeFileSync(filePath, encodePng({ width: 1, height: 1, data: new Uint8Array(4).fill(255) }));
+      },
+      async close() {
+        closed.push(session);
+      },
+    });
+    const pool = createSessionPool({ baseUrl: 'http://app.test', outputDir, size: 2, driver });
+
+    const shots = await pool.map(['/a', '/b', '/c', '/d', '/e'], async (page, session) => {
+      await session.open(page);
+      return path.basename(await session.screenshot(`${page.slice(1)}.png`));
+    });
+    await pool.close();
+
+    expect(shots).toEqual(['a.png', 'b.png', 'c.png', 'd.png', 'e.png']);
+    expect(peak).toBe(2);
+    const sessions = [...new Set(opened.map(line => line.split(' ')[0]))];
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toMatch(new RegExp(`^ralph-${process.pid}-\\d+$`));
+    expect(closed.sort()).toEqual(sessions.sort());
+  });
+
+  it('rejects a size that is not a positive integer', () => {
+    expect(() => createSessionPool({ baseUrl: 'http://app.test', outputDir, size: 0 })).toThrow('positive integer');
+  });
+});
+
+// =============================================================================
+// Spec Acceptance Pages (deterministic, no browser needed)
+// =============================================================================
+
+describe('Page judge', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-pages-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('judges every page in one session and closes it', async () => {
+    const opened: string[] = [];
+    let closed = 0;
+    const driver = fakeDriver({
+      open: async url => void opened.push(url),
+      close: async () => void closed++,
+    });
+    const provider = scriptedProvider(['{"pass": true}', '{"pass": false, "feedback": "Two primary buttons"}']);
+    const pages = createPageJudge({ driver })({ outputDir, intelligence: 'fast', provider });
+
+    const home = await pages.judge('http://app.test/', 'spec-home', 'Calm hero');
+    const signup = await pages.judge('http://app.test/signup', 'spec-signup', 'One call to action');
+    await pages.close();
+
+    expect(opened).toEqual(['http://app.test/', 'http://app.test/signup']);
+    expect(home).toMatchObject({ outcome: 'pass', screenshotPath: path.join(outputDir, 'spec-home.png') });
+    expect(signup).toMatchObject({ outcome: 'fail', feedback: 'Two primary buttons' });
+    expect(closed).toBe(1);
+  });
+});
+
+// =============================================================================
+// Progress Events (deterministic, no browser needed)
+// =============================================================================
+
+describe('Progress events', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-events-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('emits steps with timings and reports nested assertions once', async () => {
+    const order: string[] = [];
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeClockDriver(),
+      provider: scriptedProvider(['{"pass": true}']),
+      beforeAssertion: async ({ name }) => {
+        order.push(`before ${name}`);
+      },
+      afterAssertion: async ({ name, result }) => {
+        order.push(`after ${name} ${result.outcome}`);
+      },
+    });
+    session.on('navigate', ({ url }) => order.push(`navigate ${url}`));
+    session.on('action', ({ action, target }) => order.push(`${action} ${target}`));
+    session.on('screenshot', ({ path: file }) => order.push(`screenshot ${path.basename(file)}`));
+    session.on('assertion:start', ({ id, assertion }) => order.push(`start ${id} ${assertion}`));
+    session.on('assertion:end', event => {
+      expect(event.durationMs).toBeGreaterThanOrEqual(0);
+      order.push(`end ${event.id} ${event.assertion}`);
+    });
+
+    await session.open('/pricing');
+    await session.type('#email', 'me@example.com');
+    await session.assertLayout('Plans side by side');
+
+    expect(order).toEqual([
+      'navigate http://app.test/pricing',
+      'type #email',
+      'before layout',
+      'start 1 assertLayout',
+      'screenshot layout.png',
+      'end 1 assertLayout',
+      'after layout pass',
+    ]);
+  });
+
+  it('ends a throwing assertion with an error, for the hook and the event log', async () => {
+    const eventLog = path.join(outputDir, 'events', 'visual.ndjson');
+    const after: string[] = [];
+    const session = new VisualTestContext({
+      baseUrl: 'http://app.test',
+      outputDir,
+      driver: fakeDriver({ screenshot: async () => { throw new Error('Browser crashed'); } }),
+      eventLog,
+      afterAssertion: ({ name, result }) => void after.push(`${name} ${result.outcome} ${result.feedback}`),
+    });
+
+    await session.open();
+    await expect(session.assertVisual('home', 'Clean hero')).rejects.toThrow('Browser crashed');
+    expect(after).toEqual(['home error Browser crashed']);
+
+    const lines = fs.readFileSync(eventLog, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.type)).toEqual(['navigate', 'assertion:start', 'assertion:end']);
+    expect(lines[2]).toMatchObject({
+      assertion: 'assertVisual',
+      name: 'home',
+      url: 'http://app.test/',
+      result: { pass: false, outcome: 'error', feedback: 'Browser crashed' },
+    });
+  });
+});
+
+// =============================================================================
+// Cached Visual Assertions (deterministic, no browser needed)
+// =============================================================================
+
+describe('Cached visual assertions', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-cache-'));
+    setJudgmentCache({ dir: path.join(dir, 'cache') });
+  });
+
+  afterEach(() => {
+    setJudgmentCache(undefined);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** 64x48 white screenshot with a button-sized block, its color nudged by `shade` */
+  function screenshot(name: string, shade: number): string {
+    const data = new Uint8Array(64 * 48 * 4).fill(255);
+    for (let y = 10; y < 20; y++) {
+      for (let x = 8; x < 40; x++) {
+        data.set([shade, shade, 200, 255], (y * 64 + x) * 4);
+      }
+    }
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, encodePng({ width: 64, height: 48, data }));
+    return file;
+  }
+
+  it('reuses a verdict for a near-identical render only with a perceptual distance', async () => {
+    const provider = scriptedProvider(() => '{"pass": true}');
+    const assert = (file: string) =>
+      performVisualAssertion(file, 'Single clear call to action', { intelligence: 'smart', provider });
+
+    await assert(screenshot('before.png', 0));
+    await assert(screenshot('noise.png', 2));
+    expect(provider.calls).toHaveLength(2);
+
+    setJudgmentCache({ dir: path.join(dir, 'cache'), perceptualDistance: 4 });
+    const reused = await assert(screenshot('again.png', 3));
+
+    expect(provider.calls).toHaveLength(2);
+    expect(reused).toMatchObject({ pass: true, cached: true, screenshotPath: path.join(dir, 'again.png') });
+  });
+});
+
 // =============================================================================
 // Quick Check Examples (One-off without session)
 // =============================================================================
@@ -355,6 +851,24 @@ describe('Quick visual checks', () => {
     });
   });
 
+  it('performs quick responsive check in parallel sessions', async () => {
+    if (skipIfNoVisualTesting()) return;
+
+    // One browser session per viewport, all at once
+    const results = await assertResponsiveDesign(
+      `${TEST_BASE_URL}/pricing`,
+      'Pricing cards readable; no overlap; amounts clearly visible',
+      [VIEWPORTS.desktop, VIEWPORTS.tablet, VIEWPORTS.mobile],
+      { parallel: true }
+    );
+
+    expect(results).toHaveLength(3);
+    results.forEach((result: VisualAssertionResult) => {
+      expect(result.pass).toBe(true);
+      if (!result.pass) console.log('Feedback:', result.feedback);
+    });
+  });
+
   it('performs quick accessibility check', async () => {
     if (skipIfNoVisualTesting()) return;
 
@@ -214,18 +214,18 @@ init_project() {
 
     # Copy library patterns to src/lib
     mkdir -p "$project_dir/src/lib"
-    if [ ! -f "$project_dir/src/lib/llm-review.ts" ]; then
-        cp "$RALPH_DIR/examples/llm-review/llm-review.ts" "$project_dir/src/lib/llm-review.ts"
-        success "Created src/lib/llm-review.ts"
-    else
-        log "src/lib/llm-review.ts already exists. Skipping."
-    fi
-    if [ ! -f "$project_dir/src/lib/visual-testing.ts" ]; then
-        cp "$RALPH_DIR/examples/visual-testing/visual-testing.ts" "$project_dir/src/lib/visual-testing.ts"
-        success "Created src/lib/visual-testing.ts"
-    else
-        log "src/lib/visual-testing.ts already exists. Skipping."
-    fi
+    local lib name
+    for lib in "$RALPH_DIR"/examples/llm-review/*.ts "$RALPH_DIR"/examples/visual-testing/*.ts; do
+        case "$lib" in *.test.ts) continue ;; esac
+        name="$(basename "$lib")"
+        if [ ! -f "$project_dir/src/lib/$name" ]; then
+            # Libraries sit side by side in src/lib, so flatten cross-library imports
+            sed -e "s#'\.\./llm-review/#'./#g" -e "s#'\.\./visual-testing/#'./#g" "$lib" > "$project_dir/src/lib/$name"
+            success "Created src/lib/$name"
+        else
+            log "src/lib/$name already exists. Skipping."
+        fi
+    done
 
     # Create .gitignore additions if not present
     if [ -f "$project_dir/.gitignore" ]; then
@@ -238,6 +238,7 @@ AUDIT_REPORT.md
 BACKPRESSURE_REPORT.md
 .ralph-v2/
 .ralph-status.json
+.ralph-visual-events.ndjson
 ralph.log
 tmp/
 *.tmp
@@ -252,6 +253,7 @@ AUDIT_REPORT.md
 BACKPRESSURE_REPORT.md
 .ralph-v2/
 .ralph-status.json
+.ralph-visual-events.ndjson
 ralph.log
 tmp/
 *.tmp
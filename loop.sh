@@ -471,6 +471,9 @@ start_monitor_session() {
     # Kill existing session if any
     tmux kill-session -t "$MONITOR_SESSION_NAME" 2>/dev/null || true
 
+    # Visual tests append their progress events here for the status pane
+    export RALPH_VISUAL_EVENTS="${RALPH_VISUAL_EVENTS:-.ralph-visual-events.ndjson}"
+
     # Create new tmux session with monitoring layout
     tmux new-session -d -s "$MONITOR_SESSION_NAME" -x 180 -y 50
 
@@ -481,7 +484,7 @@ start_monitor_session() {
     tmux split-window -t "$MONITOR_SESSION_NAME" -h -p 35
 
     # Right pane: watch status and git log
-    tmux send-keys -t "$MONITOR_SESSION_NAME" "watch -n 2 -c 'echo \"═══ RALPH STATUS ═══\"; if [ -f .ralph-status.json ]; then cat .ralph-status.json | python3 -m json.tool 2>/dev/null || cat .ralph-status.json; else echo \"Waiting for status...\"; fi; echo \"\"; echo \"═══ RECENT COMMITS ═══\"; git log --oneline --color=always -8 2>/dev/null || echo \"No commits yet\"; echo \"\"; echo \"═══ PLAN (first 20 lines) ═══\"; head -20 IMPLEMENTATION_PLAN.md 2>/dev/null || echo \"No plan file\"'" C-m
+    tmux send-keys -t "$MONITOR_SESSION_NAME" "watch -n 2 -c 'echo \"═══ RALPH STATUS ═══\"; if [ -f .ralph-status.json ]; then cat .ralph-status.json | python3 -m json.tool 2>/dev/null || cat .ralph-status.json; else echo \"Waiting for status...\"; fi; echo \"\"; echo \"═══ RECENT COMMITS ═══\"; git log --oneline --color=always -8 2>/dev/null || echo \"No commits yet\"; echo \"\"; echo \"═══ VISUAL TESTS ═══\"; if [ -f $RALPH_VISUAL_EVENTS ]; then tail -n 5 $RALPH_VISUAL_EVENTS | cut -c1-110; else echo \"No visual events\"; fi; echo \"\"; echo \"═══ PLAN (first 20 lines) ═══\"; head -20 IMPLEMENTATION_PLAN.md 2>/dev/null || echo \"No plan file\"'" C-m
 
     # Split the right pane vertically for a mini dashboard
     tmux split-window -t "$MONITOR_SESSION_NAME" -v -p 30